@@ -1,14 +1,67 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
 import AudioInput from './components/AudioInput';
 import LanguageSelector from './components/LanguageSelector';
 import TranslationTabs from './components/TranslationTabs';
 import { SpinnerIcon } from './components/Icons';
 import Logo from './components/Logo';
-import { transcribeAudio, translateText, generateVoiceover, detectLanguageFromText } from './services/geminiService';
-import { fileToBase64 } from './utils/audioUtils';
-import type { Translation } from './types';
-import { LANGUAGES } from './constants';
+import { transcribeAudio, translateText, translateSegments, adjustLength, generateVoiceover, generateDialogueVoiceover, detectLanguageFromText, getAIProvider } from './services/geminiService';
+import { fileToBase64, isVideoFile, masterVoiceover, preprocessAudio } from './utils/audioUtils';
+import type { PreprocessedAudio } from './utils/audioUtils';
+import { mergeChunkTranscripts } from './utils/transcriptMerge';
+import { applySpeakingRate, estimateSpeechSeconds, fitVoiceoverToDuration } from './utils/speechTiming';
+import { joinSegments } from './utils/subtitleUtils';
+import { getDefaultVoice, saveDefaultVoice } from './utils/voicePreferences';
+import { getSpeakers, toDialogueTurns, assignSpeakerVoices } from './utils/speakerUtils';
+import { runWithConcurrency } from './utils/taskQueue';
+import { toStoredTranslations, fromStoredTranslations, revokeAudioUrls, defaultProjectName } from './utils/projectUtils';
+import { createProjectId, getProject, saveProject } from './services/projectStore';
+import { exportProjectBundle, importProjectBundle } from './utils/projectBundle';
+import { downloadBlob, safeFileName, formatBytes } from './utils/fileUtils';
+import { loadGlossary, saveGlossary, checkGlossary } from './utils/glossary';
+import { loadLexicon, saveLexicon, lexiconFor, applyLexicon } from './utils/pronunciation';
+import { stripSpeechMarkup } from './utils/speechMarkup';
+import { splitSentenceUnits, joinSentenceUnits } from './utils/textChunking';
+import { translateSegmentsWithMemory, rememberTranslations } from './services/translationMemory';
+import { reviewTranslation } from './services/translationQa';
+import { AIServiceError, describeError, isCancellation, isNoSpeech, throwIfAborted } from './services/aiErrors';
+import type { MemoryTranslation } from './services/translationMemory';
+import type { DurationFit, Glossary, MasteringSettings, MusicBed, PronunciationEntry, Project, Translation, TranscriptionChunkStatus, TranscriptSegment, VoiceSettings, VoiceoverBatch } from './types';
+import type { TranscriptionResult } from './services/aiProvider';
+import { LANGUAGES, DEFAULT_MASTERING, DEFAULT_TTS_CONCURRENCY, TEXT_FIT_TOLERANCE, TRANSCRIPTION_CHUNK_SECONDS, TRANSCRIPTION_OVERLAP_SECONDS, TRANSCRIPTION_CONCURRENCY } from './constants';
 import Flag from './components/Flag';
+import SegmentEditor from './components/SegmentEditor';
+import BatchVoiceoverPanel from './components/BatchVoiceoverPanel';
+import MusicBedPanel from './components/MusicBedPanel';
+import ProjectHistory from './components/ProjectHistory';
+import GlossaryManager from './components/GlossaryManager';
+import PronunciationLexiconManager from './components/PronunciationLexiconManager';
+import TranscriptionProgress from './components/TranscriptionProgress';
+import LiveInterpreter from './components/LiveInterpreter';
+import ConversationMode from './components/ConversationMode';
+
+// Same shape as a memory-backed result, for when the translation memory is switched off.
+const withoutMemory = (segmentMap: Record<string, string[]>): Record<string, MemoryTranslation> =>
+  Object.fromEntries(Object.entries(segmentMap).map(([code, texts]) => [code, { texts, matches: [] }]));
+
+interface VoiceoverOutcome {
+  ok: boolean;
+  error?: string; // user-facing reason, when the voiceover failed
+  cancelled?: boolean;
+}
+
+// Masters the synthesized audio, then fits the result to `target` seconds when one is given.
+// Without a target the speaking rate sets the pace instead; with one the fit decides it.
+const finishVoiceover = async (rawAudioUrl: string, mastering: MasteringSettings, speakingRate: number, target: number | null) => {
+  const mastered = await masterVoiceover(rawAudioUrl, mastering);
+  if (!target) {
+    const audioUrl = await applySpeakingRate(mastered.audioUrl, speakingRate);
+    if (audioUrl !== mastered.audioUrl) URL.revokeObjectURL(mastered.audioUrl);
+    return { audioUrl, masteringReport: mastered.report, fitted: null };
+  }
+  const fitted = await fitVoiceoverToDuration(mastered.audioUrl, target);
+  if (fitted.audioUrl !== mastered.audioUrl) URL.revokeObjectURL(mastered.audioUrl);
+  return { audioUrl: fitted.audioUrl, masteringReport: mastered.report, fitted };
+};
 
 const App: React.FC = () => {
   const [step, setStep] = useState<'initial' | 'transcribing' | 'transcribed' | 'translating' | 'translated'>('initial');
@@ -16,63 +69,277 @@ const App: React.FC = () => {
   const [loadingMessage, setLoadingMessage] = useState<string>('');
 
   const [originalTranscript, setOriginalTranscript] = useState<string>('');
+  const [originalSegments, setOriginalSegments] = useState<TranscriptSegment[]>([]);
   const [detectedLanguage, setDetectedLanguage] = useState<{ name: string; code: string } | null>(null);
   const [selectedLanguages, setSelectedLanguages] = useState<string[]>([]);
   const [translations, setTranslations] = useState<Translation[]>([]);
   const [activeTab, setActiveTab] = useState<string | null>(null);
+  const [batch, setBatch] = useState<VoiceoverBatch | null>(null);
+  const [batchConcurrency, setBatchConcurrency] = useState(DEFAULT_TTS_CONCURRENCY);
+  const [glossary, setGlossary] = useState<Glossary>(loadGlossary);
+  const [lexicon, setLexicon] = useState<PronunciationEntry[]>(loadLexicon);
+  const [useTranslationMemory, setUseTranslationMemory] = useState(true);
+  const [retranslatingLanguage, setRetranslatingLanguage] = useState<string | null>(null);
+  const [runQaAfterTranslating, setRunQaAfterTranslating] = useState(false);
+
+  // Long-running voiceover jobs read the latest translations from here instead of
+  // closing over a render's `translations`, which would be stale by the time they start.
+  const translationsRef = useRef<Translation[]>(translations);
+  useEffect(() => {
+    translationsRef.current = translations;
+  }, [translations]);
 
   const [isEditingTranscript, setIsEditingTranscript] = useState(false);
   const [tempTranscript, setTempTranscript] = useState('');
+  const [tempSegments, setTempSegments] = useState<TranscriptSegment[]>([]);
 
-  const formatError = (err: any) => {
-    const msg = err?.message || 'Unknown error';
-    if (msg.includes('API Key') || msg.includes('400') || msg.includes('403')) {
-      return "Access Error: Please check if the API_KEY is correctly configured in your Vercel Project Settings.";
-    }
-    return msg;
+  // Every session is saved as a project; `projectId` is null until there is something to save.
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [sourceMedia, setSourceMedia] = useState<Blob | null>(null);
+  const [sourceDuration, setSourceDuration] = useState<number | null>(null);
+  const [musicBed, setMusicBed] = useState<MusicBed | null>(null);
+  const [chunkStatuses, setChunkStatuses] = useState<TranscriptionChunkStatus[]>([]);
+  // The recording being transcribed, kept with the finished chunk results so a
+  // failed chunk can be retried without redoing the others.
+  const transcriptionJobRef = useRef<{ media: Blob; processed: PreprocessedAudio; results: Array<TranscriptionResult | undefined>; signal: AbortSignal } | null>(null);
+  // Cancels the transcription or translation behind the loading screen.
+  const operationRef = useRef<AbortController | null>(null);
+  // One per language whose voiceover is being generated, plus one for a running batch.
+  const voiceoverControllersRef = useRef<Map<string, AbortController>>(new Map());
+  const batchControllerRef = useRef<AbortController | null>(null);
+  // The single-language re-translation, if one is running.
+  const retranslateControllerRef = useRef<AbortController | null>(null);
+  // Counts local re-renders (mastering, speed) per language, to drop superseded results.
+  const renderGenerationsRef = useRef<Map<string, number>>(new Map());
+  const [uploadStats, setUploadStats] = useState<{ originalSize: number; uploadSize: number; trimmedSeconds: number } | null>(null);
+  const [fitToDuration, setFitToDuration] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [activeTool, setActiveTool] = useState<'live' | 'conversation' | null>(null);
+  const [isExportingProject, setIsExportingProject] = useState(false);
+
+  // Voice previews are cached per language, voice and direction to avoid repeat TTS calls.
+  const previewCacheRef = useRef<Map<string, string>>(new Map());
+
+  // Starts a cancellable operation, aborting any previous one.
+  const startOperation = (): AbortSignal => {
+    operationRef.current?.abort();
+    operationRef.current = new AbortController();
+    return operationRef.current.signal;
   };
 
-  const handleAudioSubmit = useCallback(async (audioBlob: Blob) => {
+  // Transcribes one chunk of the recording in `transcriptionJobRef`, tracking its status.
+  // Throws on failure; results of a job that was replaced meanwhile are dropped.
+  const transcribeChunk = useCallback(async (index: number) => {
+    const job = transcriptionJobRef.current;
+    if (!job) return;
+    const chunk = job.processed.chunks[index];
+    const setStatus = (patch: Partial<TranscriptionChunkStatus>) => {
+      if (transcriptionJobRef.current !== job) return;
+      setChunkStatuses(prev => prev.map(c => c.index === index ? { ...c, ...patch } : c));
+    };
+    setStatus({ status: 'running', error: undefined });
+    try {
+      const audioBase64 = await fileToBase64(new File([chunk.blob], "audio"));
+      job.results[index] = await transcribeAudio(audioBase64, chunk.blob.type, job.signal);
+      setStatus({ status: 'done' });
+    } catch (err) {
+      // A part of a long recording may hold only music or noise; it just adds nothing.
+      if (isNoSpeech(err) && job.processed.chunks.length > 1) {
+        job.results[index] = { languageName: '', languageCode: '', transcript: '', segments: [] };
+        setStatus({ status: 'done' });
+        return;
+      }
+      console.error(`Transcription error (part ${index + 1}):`, err);
+      setStatus({ status: 'failed', error: describeError(err) });
+      throw err;
+    }
+  }, []);
+
+  // Once every chunk has a transcript, merges them and moves on to the transcript screen.
+  const finishTranscription = useCallback((): boolean => {
+    const job = transcriptionJobRef.current;
+    if (!job || job.results.some(result => !result)) return false;
+    const results = job.results as TranscriptionResult[];
+    transcriptionJobRef.current = null;
+    setChunkStatuses([]);
+    if (results.every(result => result.segments.length === 0)) {
+      setError(describeError(new AIServiceError('noSpeech', 'No part of the recording held speech.')));
+      setStep('initial');
+      return true;
+    }
+    const { transcript, segments } = mergeChunkTranscripts(results.map((result, i) => {
+      const chunk = job.processed.chunks[i];
+      return { offset: chunk.start, ownStart: chunk.ownStart, ownEnd: chunk.ownEnd, transcript: result.transcript, segments: result.segments };
+    }));
+    // The part with the most speech decides the language.
+    const main = results.reduce((best, result) => result.transcript.length > best.transcript.length ? result : best);
+    setOriginalTranscript(transcript);
+    setOriginalSegments(segments);
+    setDetectedLanguage({ name: main.languageName, code: main.languageCode });
+    setSourceMedia(job.media);
+    setSourceDuration(job.processed.duration);
+    setMusicBed(null);
+    setProjectId(createProjectId());
+    setError(null);
+    setStep('transcribed');
+    return true;
+  }, []);
+
+  // The media is shrunk in the browser before upload; video uploads are kept as the
+  // project's source media, only their audio track is transcribed. Long recordings
+  // arrive in several chunks, transcribed a few at a time.
+  const handleAudioSubmit = useCallback(async (media: Blob) => {
+    const signal = startOperation();
     setStep('transcribing');
-    setLoadingMessage('Transcribing audio...');
+    setLoadingMessage(isVideoFile(media) ? 'Extracting audio from video...' : 'Preparing audio...');
     setError(null);
     setDetectedLanguage(null);
+    setUploadStats(null);
+    setChunkStatuses([]);
     try {
-      console.log(`Processing audio: size=${audioBlob.size}, type=${audioBlob.type}`);
-      const audioBase64 = await fileToBase64(new File([audioBlob], "audio"));
-      const { transcript, languageName, languageCode } = await transcribeAudio(audioBase64, audioBlob.type);
-      setOriginalTranscript(transcript);
-      setDetectedLanguage({ name: languageName, code: languageCode });
-      setStep('transcribed');
-    } catch (err: any) {
+      console.log(`Processing media: size=${media.size}, type=${media.type}`);
+      const processed = await preprocessAudio(media, { maxChunkSeconds: TRANSCRIPTION_CHUNK_SECONDS, overlapSeconds: TRANSCRIPTION_OVERLAP_SECONDS });
+      throwIfAborted(signal);
+      const stats = { originalSize: processed.originalSize, uploadSize: processed.uploadSize, trimmedSeconds: processed.trimmedSeconds };
+      setUploadStats(stats);
+      const { chunks } = processed;
+      if (chunks.length === 0) throw new Error('The recording appears to be silent.');
+      const job = { media, processed, results: chunks.map((): TranscriptionResult | undefined => undefined), signal };
+      transcriptionJobRef.current = job;
+      if (chunks.length > 1) {
+        setChunkStatuses(chunks.map((chunk, index) => ({ index, start: chunk.start, end: chunk.end, status: 'pending' })));
+      }
+      setLoadingMessage(`Transcribing ${chunks.length > 1 ? `${chunks.length} parts` : 'audio'} (${formatBytes(stats.originalSize)} reduced to ${formatBytes(stats.uploadSize)})...`);
+
+      const outcomes = await runWithConcurrency(chunks.map((_, index) => index), TRANSCRIPTION_CONCURRENCY, transcribeChunk);
+      if (transcriptionJobRef.current !== job || finishTranscription()) return;
+      const failures = outcomes.filter((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+      if (chunks.length === 1) throw failures[0]?.reason;
+      // Keep the finished parts; the failed ones can be retried from the progress list.
+      setLoadingMessage('Some parts could not be transcribed.');
+      setError(`${failures.length} of ${chunks.length} parts failed. Retry them below; finished parts are kept.`);
+    } catch (err) {
+      // A cancelled run has already been reset by whoever cancelled it.
+      if (isCancellation(err)) return;
       console.error("Transcription error:", err);
-      setError(formatError(err));
+      transcriptionJobRef.current = null;
+      setError(describeError(err));
       setStep('initial');
     }
-  }, []);
+  }, [transcribeChunk, finishTranscription]);
+
+  const handleRetryChunk = useCallback(async (index: number) => {
+    setError(null);
+    try {
+      await transcribeChunk(index);
+      finishTranscription();
+    } catch (err) {
+      if (!isCancellation(err)) setError(`Part ${index + 1} failed again: ${describeError(err)}`);
+    }
+  }, [transcribeChunk, finishTranscription]);
 
   const handleTextSubmit = useCallback(async (text: string) => {
     if (!text.trim()) {
       setError('Please enter some text to continue.');
       return;
     }
+    const signal = startOperation();
     setStep('transcribing'); // Reuse 'transcribing' as the loading step
     setLoadingMessage('Detecting Language...');
     setError(null);
     setDetectedLanguage(null);
 
     try {
-      const { languageName, languageCode } = await detectLanguageFromText(text);
+      const { languageName, languageCode } = await detectLanguageFromText(text, signal);
+      throwIfAborted(signal);
       setOriginalTranscript(text);
+      setOriginalSegments([]);
       setDetectedLanguage({ name: languageName, code: languageCode });
+      setSourceMedia(null);
+      setSourceDuration(null);
+      setMusicBed(null);
+      setUploadStats(null);
+      setProjectId(createProjectId());
       setStep('transcribed');
-    } catch (err: any) {
+    } catch (err) {
+      if (isCancellation(err)) return;
       console.error("Text detection error:", err);
-      setError(formatError(err));
+      setError(describeError(err));
       setStep('initial');
     }
   }, []);
 
+  // Back-translation QA for the given translations, a few languages at a time. A report is
+  // only attached if the text it checked is still the current text.
+  const runQaChecks = useCallback(async (targets: Translation[]) => {
+    if (!detectedLanguage || targets.length === 0) return;
+    const codes = targets.map(t => t.languageCode);
+    setTranslations(prev => prev.map(t => codes.includes(t.languageCode) ? { ...t, isCheckingQa: true } : t));
+    await runWithConcurrency(targets, DEFAULT_TTS_CONCURRENCY, async target => {
+      const qaReport = await reviewTranslation(originalTranscript, detectedLanguage, { language: target.language, text: stripSpeechMarkup(target.text) });
+      setTranslations(prev => prev.map(t => t.languageCode === target.languageCode
+        ? { ...t, isCheckingQa: false, qaReport: t.text === target.text ? qaReport : t.qaReport }
+        : t));
+    });
+  }, [originalTranscript, detectedLanguage]);
+
+  const handleRunQa = useCallback((languageCode: string) => {
+    const translation = translationsRef.current.find(t => t.languageCode === languageCode);
+    if (translation && !translation.isCheckingQa) runQaChecks([translation]);
+  }, [runQaChecks]);
+
+  // Translates the source into the given languages, returning fresh translations with default voices.
+  const buildTranslations = useCallback(async (languages: string[], signal?: AbortSignal): Promise<Translation[]> => {
+    if (!detectedLanguage) throw new Error('Could not detect the original language.');
+    const languageName = (code: string) => LANGUAGES.find(l => l.code === code)?.name || code;
+    const sourceLanguage = { name: detectedLanguage.name, code: detectedLanguage.code };
+    let newTranslations: Translation[];
+    if (originalSegments.length > 0) {
+      // Timed input: translate segment by segment and keep the source timings.
+      const sources = originalSegments.map(s => s.text);
+      const results = useTranslationMemory
+        ? await translateSegmentsWithMemory(sources, sourceLanguage, languages, glossary, signal)
+        : withoutMemory(await translateSegments(sources, detectedLanguage.name, languages, glossary, signal));
+      const speakers = getSpeakers(originalSegments);
+      newTranslations = Object.entries(results).map(([langCode, { texts, matches }]) => {
+        const segments = originalSegments.map((segment, i) => ({ ...segment, text: texts[i] || '' }));
+        const voice = getDefaultVoice(langCode);
+        return {
+          language: languageName(langCode),
+          languageCode: langCode,
+          text: joinSegments(segments),
+          segments,
+          voice,
+          speakerVoices: speakers.length > 1 ? assignSpeakerVoices(speakers, voice.voiceName) : undefined,
+          memoryMatches: matches,
+        };
+      });
+    } else if (useTranslationMemory) {
+      // Plain text goes through the memory sentence by sentence, keeping its paragraph layout.
+      const { leading, units } = splitSentenceUnits(originalTranscript);
+      const results = await translateSegmentsWithMemory(units.map(u => u.text), sourceLanguage, languages, glossary, signal);
+      newTranslations = Object.entries(results).map(([langCode, { texts, matches }]) => ({
+        language: languageName(langCode),
+        languageCode: langCode,
+        text: joinSentenceUnits(leading, texts, units),
+        voice: getDefaultVoice(langCode),
+        memoryMatches: matches,
+      }));
+    } else {
+      const translationMap = await translateText(originalTranscript, detectedLanguage.name, languages, glossary, signal);
+      newTranslations = Object.entries(translationMap).map(([langCode, text]) => ({
+        language: languageName(langCode),
+        languageCode: langCode,
+        text,
+        voice: getDefaultVoice(langCode),
+      }));
+    }
+    return newTranslations.map(t => ({
+      ...t,
+      glossaryIssues: checkGlossary(originalTranscript, t.text, t.languageCode, glossary),
+    }));
+  }, [originalTranscript, originalSegments, detectedLanguage, glossary, useTranslationMemory]);
+
   const handleTranslate = useCallback(async () => {
     if (selectedLanguages.length === 0) {
       setError('Please select at least one language to translate.');
@@ -82,55 +349,459 @@ const App: React.FC = () => {
       setError('Could not detect the original language. Cannot translate.');
       return;
     }
+    const signal = startOperation();
     setStep('translating');
     setLoadingMessage('Translating Text...');
     setError(null);
     try {
-      const translationMap = await translateText(originalTranscript, detectedLanguage.name, selectedLanguages);
-      const newTranslations = Object.entries(translationMap).map(([langCode, text]) => ({
-        language: LANGUAGES.find(l => l.code === langCode)?.name || langCode,
-        languageCode: langCode,
-        text,
-      }));
+      const newTranslations = await buildTranslations(selectedLanguages, signal);
+      throwIfAborted(signal);
       setTranslations(newTranslations);
+      setBatch(null);
       setActiveTab(newTranslations[0]?.languageCode || null);
       setStep('translated');
+      if (runQaAfterTranslating) runQaChecks(newTranslations);
     } catch (err) {
+      if (isCancellation(err)) return;
       console.error(err);
-      setError('Failed to translate text. Please try again.');
+      setError(`Failed to translate text. ${describeError(err)}`);
       setStep('transcribed');
     }
-  }, [originalTranscript, selectedLanguages, detectedLanguage]);
+  }, [selectedLanguages, detectedLanguage, buildTranslations, runQaAfterTranslating, runQaChecks]);
 
-  const handleGenerateVoiceover = useCallback(async (languageCode: string) => {
-    const translation = translations.find(t => t.languageCode === languageCode);
-    if (!translation) return;
+  // Translates a single language again. Only that language is replaced, so hand edits
+  // to the others are kept; its voice choices carry over and existing audio is marked stale.
+  const handleRetranslate = useCallback(async (languageCode: string) => {
+    retranslateControllerRef.current?.abort();
+    const controller = new AbortController();
+    retranslateControllerRef.current = controller;
+    const { signal } = controller;
+    setRetranslatingLanguage(languageCode);
+    setError(null);
+    try {
+      const [fresh] = await buildTranslations([languageCode], signal);
+      if (!fresh) throw new Error('The translation came back empty.');
+      // Another project may have been opened meanwhile; its translations are not ours to replace.
+      throwIfAborted(signal);
+      setTranslations(prev => prev.map(t => t.languageCode === languageCode
+        ? {
+            ...fresh,
+            voice: t.voice,
+            speakerVoices: t.speakerVoices,
+            // The voiceover stays as it was, with everything needed to re-render it.
+            audioUrl: t.audioUrl,
+            rawAudioUrl: t.rawAudioUrl,
+            mastering: t.mastering,
+            masteringReport: t.masteringReport,
+            speakingRate: t.speakingRate,
+            durationFit: t.durationFit,
+            isAudioStale: !!t.audioUrl && (t.isAudioStale || fresh.text !== t.text),
+          }
+        : t));
+      if (runQaAfterTranslating) runQaChecks([fresh]);
+    } catch (err) {
+      if (isCancellation(err)) return;
+      console.error(err);
+      const language = translationsRef.current.find(t => t.languageCode === languageCode)?.language || languageCode;
+      setError(`Failed to re-translate ${language}. ${describeError(err)}`);
+    } finally {
+      if (retranslateControllerRef.current === controller) {
+        retranslateControllerRef.current = null;
+        setRetranslatingLanguage(null);
+      }
+    }
+  }, [buildTranslations, runQaAfterTranslating, runQaChecks]);
+
+  // Stores a hand-edited translation. The first edit keeps the model output for the diff view.
+  const handleSaveTranslation = useCallback((languageCode: string, text: string, segments?: TranscriptSegment[]) => {
+    setTranslations(prev => prev.map(t => {
+      if (t.languageCode !== languageCode) return t;
+      const changed = text !== t.text;
+      const machineText = t.machineText ?? (changed ? t.text : undefined);
+      // Memory matches only stay listed for segments that still hold the reused text; edited
+      // ones have been reviewed, and plain-text sentences cannot be lined up again.
+      const nextSegments = segments || t.segments;
+      const memoryMatches = !changed ? t.memoryMatches
+        : nextSegments && t.memoryMatches?.filter(m => stripSpeechMarkup(nextSegments[m.index]?.text || '').trim() === m.target.trim());
+      return {
+        ...t,
+        text,
+        segments: nextSegments,
+        // Reverting to the machine output makes the translation unedited again.
+        machineText: text === machineText ? undefined : machineText,
+        memoryMatches: memoryMatches?.length ? memoryMatches : undefined,
+        isAudioStale: t.isAudioStale || (!!t.audioUrl && changed),
+        qaReport: changed ? undefined : t.qaReport,
+        glossaryIssues: checkGlossary(originalTranscript, stripSpeechMarkup(text), languageCode, glossary),
+      };
+    }));
+    // Corrected segments are the best thing to reuse next time.
+    if (segments && detectedLanguage) {
+      const pairs = originalSegments.map((source, i) => ({ source: source.text, target: stripSpeechMarkup(segments[i]?.text || '') }));
+      rememberTranslations(detectedLanguage.code, languageCode, pairs)
+        .catch(err => console.error('Error updating the translation memory:', err));
+    }
+  }, [originalTranscript, originalSegments, detectedLanguage, glossary]);
+
+  const handleGlossaryChange = useCallback((next: Glossary) => {
+    setGlossary(next);
+    saveGlossary(next);
+  }, []);
+
+  const handleLexiconChange = useCallback((next: PronunciationEntry[]) => {
+    setLexicon(next);
+    saveLexicon(next);
+  }, []);
+
+  const updateTranslation = useCallback((languageCode: string, patch: Partial<Translation>) => {
+    setTranslations(prev => prev.map(t => t.languageCode === languageCode ? { ...t, ...patch } : t));
+  }, []);
+
+  // Generates one language's voiceover and records the outcome on the translation.
+  // Resolves with the outcome instead of throwing, so batch runs can carry on.
+  const runVoiceover = useCallback(async (languageCode: string): Promise<VoiceoverOutcome> => {
+    const translation = translationsRef.current.find(t => t.languageCode === languageCode);
+    if (!translation || translation.isGeneratingAudio) return { ok: false };
+
+    updateTranslation(languageCode, { isGeneratingAudio: true, audioError: undefined });
+    renderGenerationsRef.current.set(languageCode, (renderGenerationsRef.current.get(languageCode) ?? 0) + 1);
+    const controller = new AbortController();
+    voiceoverControllersRef.current.set(languageCode, controller);
+    const { signal } = controller;
 
-    setTranslations(prev => prev.map(t => t.languageCode === languageCode ? { ...t, isGeneratingAudio: true } : t));
+    const onProgress = (current: number, total: number) => {
+      updateTranslation(languageCode, { audioProgress: { current, total } });
+    };
 
     try {
-      const audioUrl = await generateVoiceover(translation.text);
-      setTranslations(prev => prev.map(t => t.languageCode === languageCode ? { ...t, audioUrl, isGeneratingAudio: false } : t));
+      let { text, segments } = translation;
+      const target = fitToDuration ? sourceDuration : null;
+      let rewritten = false;
+      // Fitting first asks for a shorter or longer text when the estimate is far off.
+      // Hand-edited translations are left alone; only their audio is stretched. The
+      // rewrite is only kept once its voiceover exists.
+      if (target && translation.machineText === undefined) {
+        const estimate = estimateSpeechSeconds(stripSpeechMarkup(text), languageCode);
+        const ratio = estimate > 0 ? target / estimate : 1;
+        if (Math.abs(ratio - 1) > TEXT_FIT_TOLERANCE) {
+          const sources = segments ? segments.map(s => s.text) : [text];
+          const adjusted = (await adjustLength(sources, translation.language, ratio, signal)).map((t, i) => t.trim() || sources[i]);
+          segments = segments?.map((segment, i) => ({ ...segment, text: adjusted[i] }));
+          text = segments ? joinSegments(segments) : adjusted[0];
+          rewritten = true;
+        }
+      }
+
+      const speakers = getSpeakers(segments);
+      const rawAudioUrl = speakers.length > 1 && segments
+        ? await generateDialogueVoiceover(
+            toDialogueTurns(segments),
+            assignSpeakerVoices(speakers, translation.voice?.voiceName || '', translation.speakerVoices),
+            translation.voice,
+            { onProgress, lexicon: lexiconFor(lexicon, languageCode), signal },
+          )
+        : await generateVoiceover(text, translation.voice, { onProgress, lexicon: lexiconFor(lexicon, languageCode), signal });
+
+      const { audioUrl, masteringReport, fitted } = await finishVoiceover(rawAudioUrl, translation.mastering ?? DEFAULT_MASTERING, translation.speakingRate ?? 1, target);
+      // Cancelled while mastering, e.g. because another project was opened.
+      if (signal.aborted) {
+        revokeAudioUrls([{ audioUrl, rawAudioUrl }]);
+        throwIfAborted(signal);
+      }
+      const durationFit: DurationFit | undefined = fitted && target
+        ? { target, actual: fitted.duration, stretch: fitted.stretch, rewritten }
+        : undefined;
+      const previous = translationsRef.current.find(t => t.languageCode === languageCode);
+      if (previous) revokeAudioUrls([previous]);
+      // The model's text stays as machineText, so the rewrite shows in the diff and can be reverted.
+      const keepsRewrite = rewritten && previous?.text === translation.text;
+      const rewrite = keepsRewrite
+        ? {
+            text,
+            segments,
+            machineText: translation.text,
+            qaReport: undefined,
+            glossaryIssues: checkGlossary(originalTranscript, stripSpeechMarkup(text), languageCode, glossary),
+          }
+        : {};
+      updateTranslation(languageCode, { ...rewrite, audioUrl, rawAudioUrl, masteringReport, durationFit, isGeneratingAudio: false, audioProgress: undefined, isAudioStale: rewritten && !keepsRewrite });
+      return { ok: true };
     } catch (err) {
+      if (isCancellation(err)) {
+        updateTranslation(languageCode, { isGeneratingAudio: false, audioProgress: undefined });
+        return { ok: false, cancelled: true };
+      }
       console.error(err);
-      setError(`Failed to generate voiceover for ${translation.language}.`);
-      setTranslations(prev => prev.map(t => t.languageCode === languageCode ? { ...t, isGeneratingAudio: false } : t));
+      const error = describeError(err);
+      updateTranslation(languageCode, { isGeneratingAudio: false, audioProgress: undefined, audioError: error });
+      return { ok: false, error };
+    } finally {
+      voiceoverControllersRef.current.delete(languageCode);
     }
-  }, [translations]);
+  }, [updateTranslation, fitToDuration, sourceDuration, originalTranscript, glossary, lexicon]);
+
+  // Re-renders the existing voiceover locally with new mastering or speaking rate; no new synthesis.
+  const rerenderVoiceover = useCallback(async (languageCode: string, patch: Pick<Translation, 'mastering' | 'speakingRate'>) => {
+    const translation = translationsRef.current.find(t => t.languageCode === languageCode);
+    if (!translation) return;
+    if (!translation.audioUrl) {
+      updateTranslation(languageCode, patch);
+      return;
+    }
+    // Projects saved before the synthesis was stored only have the finished audio, and
+    // processing that again would master and stretch it twice.
+    const source = translation.rawAudioUrl;
+    if (!source) {
+      setError(`The ${translation.language} voiceover was saved without its original synthesis. Regenerate it to change its mastering or speed.`);
+      return;
+    }
+    // Only the latest render of a language is kept; a regeneration supersedes it too.
+    const generation = (renderGenerationsRef.current.get(languageCode) ?? 0) + 1;
+    renderGenerationsRef.current.set(languageCode, generation);
+    const target = translation.durationFit?.target ?? null;
+    try {
+      const mastering = patch.mastering ?? translation.mastering ?? DEFAULT_MASTERING;
+      const speakingRate = patch.speakingRate ?? translation.speakingRate ?? 1;
+      const { audioUrl, masteringReport, fitted } = await finishVoiceover(source, mastering, speakingRate, target);
+      const current = translationsRef.current.find(t => t.languageCode === languageCode);
+      if (renderGenerationsRef.current.get(languageCode) !== generation || current?.rawAudioUrl !== source) {
+        URL.revokeObjectURL(audioUrl);
+        return;
+      }
+      const durationFit = fitted && translation.durationFit
+        ? { ...translation.durationFit, actual: fitted.duration, stretch: fitted.stretch }
+        : translation.durationFit;
+      if (current.audioUrl) URL.revokeObjectURL(current.audioUrl);
+      updateTranslation(languageCode, { ...patch, masteringReport, audioUrl, durationFit });
+    } catch (err) {
+      console.error(err);
+      setError(`Could not process the ${translation.language} voiceover: ${describeError(err)}`);
+    }
+  }, [updateTranslation]);
+
+  const handleApplyMastering = useCallback(
+    (languageCode: string, mastering: MasteringSettings) => rerenderVoiceover(languageCode, { mastering }),
+    [rerenderVoiceover],
+  );
+
+  const handleSpeakingRateChange = useCallback(
+    (languageCode: string, speakingRate: number) => rerenderVoiceover(languageCode, { speakingRate }),
+    [rerenderVoiceover],
+  );
+
+  const handleGenerateVoiceover = useCallback(async (languageCode: string) => {
+    const { error } = await runVoiceover(languageCode);
+    // A cancelled voiceover fails without an error.
+    if (error) {
+      const language = translationsRef.current.find(t => t.languageCode === languageCode)?.language || languageCode;
+      setError(`Failed to generate voiceover for ${language}. ${error}`);
+    }
+  }, [runVoiceover]);
+
+  const handleCancelVoiceover = useCallback((languageCode: string) => {
+    voiceoverControllersRef.current.get(languageCode)?.abort();
+  }, []);
+
+  // Queues TTS for every language missing audio or holding stale audio (or, when
+  // retrying, every language whose last attempt failed), a few languages at a time.
+  const handleGenerateAll = useCallback(async (retryFailedOnly: boolean) => {
+    const queue = translationsRef.current
+      .filter(t => !t.isGeneratingAudio && (retryFailedOnly ? !!t.audioError : !t.audioUrl || t.isAudioStale))
+      .map(t => t.languageCode);
+    if (queue.length === 0) return;
+
+    setError(null);
+    const controller = new AbortController();
+    batchControllerRef.current = controller;
+    setBatch({ total: queue.length, completed: 0, failed: 0, isRunning: true });
+    await runWithConcurrency(queue, batchConcurrency, async languageCode => {
+      if (controller.signal.aborted) return;
+      const { ok, cancelled } = await runVoiceover(languageCode);
+      if (cancelled) return;
+      setBatch(prev => prev && (ok ? { ...prev, completed: prev.completed + 1 } : { ...prev, failed: prev.failed + 1 }));
+    });
+    if (batchControllerRef.current === controller) batchControllerRef.current = null;
+    setBatch(prev => prev && { ...prev, isRunning: false });
+  }, [batchConcurrency, runVoiceover]);
+
+  // Stops a batch: languages in progress are aborted and queued ones never start.
+  const handleCancelBatch = useCallback(() => {
+    batchControllerRef.current?.abort();
+    voiceoverControllersRef.current.forEach(controller => controller.abort());
+  }, []);
+
+  const handleVoiceChange = useCallback((languageCode: string, voice: VoiceSettings) => {
+    saveDefaultVoice(languageCode, voice);
+    updateTranslation(languageCode, { voice });
+  }, [updateTranslation]);
+
+  const handleSpeakerVoiceChange = useCallback((languageCode: string, speaker: string, voiceName: string) => {
+    setTranslations(prev => prev.map(t => t.languageCode === languageCode
+      ? { ...t, speakerVoices: { ...t.speakerVoices, [speaker]: voiceName } }
+      : t));
+  }, []);
+
+  const handlePreviewVoice = useCallback(async (languageCode: string, voice: VoiceSettings) => {
+    const translation = translationsRef.current.find(t => t.languageCode === languageCode);
+    // Preview with the opening sentence of the translation so the voice is heard in the target language.
+    const text = stripSpeechMarkup(translation?.text || '');
+    const sample = (text.match(/^[^.!?。！？]*[.!?。！？]?/)?.[0] || text).slice(0, 160).trim();
+    const entries = lexiconFor(lexicon, languageCode);
+    const cacheKey = `${languageCode}|${voice.voiceName}|${voice.style || ''}|${applyLexicon(sample, entries)}`;
+    const cached = previewCacheRef.current.get(cacheKey);
+    if (cached) return cached;
+
+    const url = await generateVoiceover(sample || voice.voiceName, voice, { lexicon: entries });
+    previewCacheRef.current.set(cacheKey, url);
+    return url;
+  }, [lexicon]);
+
+  // Captures the session as a project record, keeping the stored name and creation date.
+  const snapshotProject = useCallback(async (id: string): Promise<Project> => {
+    const existing = await getProject(id);
+    const now = Date.now();
+    return {
+      id,
+      name: existing?.name || defaultProjectName(originalTranscript, originalSegments),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+      sourceMedia: sourceMedia || undefined,
+      sourceDuration: sourceDuration ?? undefined,
+      musicBed: musicBed || undefined,
+      transcript: originalTranscript,
+      segments: originalSegments,
+      detectedLanguage,
+      translations: await toStoredTranslations(translations),
+    };
+  }, [sourceMedia, sourceDuration, musicBed, originalTranscript, originalSegments, detectedLanguage, translations]);
+
+  // Autosave: persist the open project shortly after anything in it changes.
+  useEffect(() => {
+    if (!projectId) return;
+    const timer = setTimeout(async () => {
+      try {
+        await saveProject(await snapshotProject(projectId));
+      } catch (err) {
+        console.error('Error saving project:', err);
+      }
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [projectId, snapshotProject]);
+
+  // Stops voiceover work and frees the audio of the session being left, so nothing
+  // from it is written into the next project.
+  const leaveSession = useCallback(() => {
+    batchControllerRef.current?.abort();
+    retranslateControllerRef.current?.abort();
+    voiceoverControllersRef.current.forEach(controller => controller.abort());
+    revokeAudioUrls(translationsRef.current);
+  }, []);
+
+  const loadProject = useCallback((project: Project) => {
+    leaveSession();
+    const restored = fromStoredTranslations(project.translations);
+    setProjectId(project.id);
+    setSourceMedia(project.sourceMedia || null);
+    setUploadStats(null);
+    setSourceDuration(project.sourceDuration ?? null);
+    setMusicBed(project.musicBed || null);
+    setOriginalTranscript(project.transcript);
+    setOriginalSegments(project.segments);
+    setDetectedLanguage(project.detectedLanguage);
+    setSelectedLanguages(restored.map(t => t.languageCode));
+    setTranslations(restored);
+    setActiveTab(restored[0]?.languageCode || null);
+    setBatch(null);
+    setIsEditingTranscript(false);
+    setError(null);
+    setStep(restored.length > 0 ? 'translated' : 'transcribed');
+    setShowHistory(false);
+  }, [leaveSession]);
+
+  const handleOpenProject = useCallback(async (id: string) => {
+    try {
+      const project = await getProject(id);
+      if (!project) throw new Error('Project not found.');
+      loadProject(project);
+    } catch (err) {
+      console.error('Error opening project:', err);
+      setError(`Could not open the project: ${describeError(err)}`);
+    }
+  }, [loadProject]);
+
+  const handleExportProject = useCallback(async () => {
+    if (!projectId) return;
+    setIsExportingProject(true);
+    try {
+      const project = await snapshotProject(projectId);
+      downloadBlob(await exportProjectBundle(project), `${safeFileName(project.name)}.zip`);
+    } catch (err) {
+      console.error('Error exporting project:', err);
+      setError(`Could not export the project: ${describeError(err)}`);
+    } finally {
+      setIsExportingProject(false);
+    }
+  }, [projectId, snapshotProject]);
+
+  // Imported bundles always become a new project, so re-importing never overwrites work.
+  const handleImportProject = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await importProjectBundle(file);
+      loadProject({ ...imported, id: createProjectId() });
+    } catch (err) {
+      console.error('Error importing project:', err);
+      setError(`Could not import the project: ${describeError(err)}`);
+    }
+  }, [loadProject]);
+
+  const handleProjectDeleted = useCallback((id: string) => {
+    // The open project was deleted: keep working, but stop saving it back.
+    setProjectId(current => current === id ? null : current);
+  }, []);
 
   const handleReset = () => {
+    operationRef.current?.abort();
+    operationRef.current = null;
+    leaveSession();
+    previewCacheRef.current.forEach(url => URL.revokeObjectURL(url));
+    previewCacheRef.current.clear();
     setStep('initial');
     setError(null);
     setOriginalTranscript('');
+    setOriginalSegments([]);
     setDetectedLanguage(null);
     setSelectedLanguages([]);
     setTranslations([]);
     setActiveTab(null);
+    setBatch(null);
     setIsEditingTranscript(false);
+    setProjectId(null);
+    setSourceMedia(null);
+    setSourceDuration(null);
+    setMusicBed(null);
+    setUploadStats(null);
+    transcriptionJobRef.current = null;
+    setChunkStatuses([]);
+  };
+
+  // Translating goes back to the transcript; anything earlier starts over.
+  const handleCancelOperation = () => {
+    if (step !== 'translating') {
+      handleReset();
+      return;
+    }
+    operationRef.current?.abort();
+    operationRef.current = null;
+    setError(null);
+    setStep('transcribed');
   };
 
   const handleEditTranscript = () => {
     setTempTranscript(originalTranscript);
+    setTempSegments(originalSegments);
     setIsEditingTranscript(true);
   };
 
@@ -139,30 +810,87 @@ const App: React.FC = () => {
   };
 
   const handleSaveTranscript = () => {
-    setOriginalTranscript(tempTranscript);
+    if (originalSegments.length > 0) {
+      setOriginalSegments(tempSegments);
+      setOriginalTranscript(joinSegments(tempSegments));
+    } else {
+      setOriginalTranscript(tempTranscript);
+    }
     setIsEditingTranscript(false);
     if (step === 'translated') {
+      // The translations no longer match the source: stop their work and free their audio.
+      leaveSession();
       setStep('transcribed');
       setTranslations([]);
       setActiveTab(null);
+      setBatch(null);
     }
   };
 
 
   const renderContent = () => {
+    if (showHistory) {
+      return (
+        <ProjectHistory
+          currentProjectId={projectId}
+          onOpen={handleOpenProject}
+          onDeleted={handleProjectDeleted}
+          onClose={() => setShowHistory(false)}
+        />
+      );
+    }
+    if (activeTool === 'live') {
+      return <LiveInterpreter initialLanguages={selectedLanguages} onClose={() => setActiveTool(null)} />;
+    }
+    if (activeTool === 'conversation') {
+      return <ConversationMode onClose={() => setActiveTool(null)} />;
+    }
     switch (step) {
       case 'initial':
-        return <AudioInput onSubmit={handleAudioSubmit} onTextSubmit={handleTextSubmit} />;
+        return (
+          <div className="w-full flex flex-col items-center">
+            <AudioInput onSubmit={handleAudioSubmit} onTextSubmit={handleTextSubmit} />
+            <div className="mt-6 flex gap-3">
+              <button
+                onClick={() => setActiveTool('live')}
+                className="px-4 py-2 text-sm rounded-md border border-brand-primary text-brand-primary hover:bg-gray-100 transition-colors"
+              >
+                Live interpreter mode
+              </button>
+              <button
+                onClick={() => setActiveTool('conversation')}
+                className="px-4 py-2 text-sm rounded-md border border-brand-primary text-brand-primary hover:bg-gray-100 transition-colors"
+              >
+                Conversation mode
+              </button>
+            </div>
+            <label className="mt-6 text-sm text-brand-primary hover:underline cursor-pointer">
+              Import a project (.zip)
+              <input type="file" accept=".zip,application/zip" className="hidden" onChange={handleImportProject} />
+            </label>
+          </div>
+        );
       case 'transcribing':
-      case 'translating':
+      case 'translating': {
+        // Nothing is running while failed parts of a long recording wait for a retry.
+        const isWaitingForRetry = chunkStatuses.some(c => c.status === 'failed')
+          && !chunkStatuses.some(c => c.status === 'running' || c.status === 'pending');
         return (
           <div className="flex flex-col items-center justify-center space-y-4 p-8">
-            <SpinnerIcon className="w-16 h-16 text-brand-primary" />
-            <p className="text-xl text-gray-light animate-pulse">
+            {!isWaitingForRetry && <SpinnerIcon className="w-16 h-16 text-brand-primary" />}
+            <p className={`text-xl text-gray-light ${isWaitingForRetry ? '' : 'animate-pulse'}`}>
               {loadingMessage}
             </p>
+            {step === 'transcribing' && chunkStatuses.length > 0 ? (
+              <TranscriptionProgress chunks={chunkStatuses} onRetry={handleRetryChunk} onCancel={handleReset} />
+            ) : (
+              <button onClick={handleCancelOperation} className="text-sm text-brand-primary hover:underline">
+                Cancel
+              </button>
+            )}
           </div>
         );
+      }
       case 'transcribed':
       case 'translated':
         return (
@@ -176,6 +904,12 @@ const App: React.FC = () => {
                           <span>{detectedLanguage.name}</span>
                       </div>
                   )}
+                  {uploadStats && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Uploaded {formatBytes(uploadStats.uploadSize)} instead of {formatBytes(uploadStats.originalSize)}
+                        {' '}(mono, 16 kHz{uploadStats.trimmedSeconds >= 0.1 ? `, ${uploadStats.trimmedSeconds.toFixed(1)} s of silence trimmed` : ''})
+                      </p>
+                  )}
               </div>
               {!isEditingTranscript ? (
                   <button onClick={handleEditTranscript} className="px-3 py-1 text-sm rounded-md border border-gray-medium text-brand-primary hover:bg-gray-100 transition-colors flex-shrink-0">
@@ -192,12 +926,20 @@ const App: React.FC = () => {
                 </div>
               )}
             </div>
-            <textarea
-              readOnly={!isEditingTranscript}
-              value={isEditingTranscript ? tempTranscript : originalTranscript}
-              onChange={(e) => setTempTranscript(e.target.value)}
-              className={`w-full h-32 p-3 bg-white border border-gray-medium rounded-md resize-none focus:outline-none transition-all ${isEditingTranscript ? 'ring-2 ring-brand-primary' : 'focus:ring-2 focus:ring-brand-primary'}`}
-            />
+            {originalSegments.length > 0 ? (
+              <SegmentEditor
+                segments={isEditingTranscript ? tempSegments : originalSegments}
+                isEditing={isEditingTranscript}
+                onChange={setTempSegments}
+              />
+            ) : (
+              <textarea
+                readOnly={!isEditingTranscript}
+                value={isEditingTranscript ? tempTranscript : originalTranscript}
+                onChange={(e) => setTempTranscript(e.target.value)}
+                className={`w-full h-32 p-3 bg-white border border-gray-medium rounded-md resize-none focus:outline-none transition-all ${isEditingTranscript ? 'ring-2 ring-brand-primary' : 'focus:ring-2 focus:ring-brand-primary'}`}
+              />
+            )}
             
             {step === 'transcribed' && (
                <div className="mt-6">
@@ -212,16 +954,76 @@ const App: React.FC = () => {
                         Translate
                     </button>
                  </div>
+                 <label className="mt-3 flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={useTranslationMemory}
+                      onChange={(e) => setUseTranslationMemory(e.target.checked)}
+                      className="w-4 h-4 rounded text-brand-primary border-gray-300 focus:ring-brand-secondary"
+                    />
+                    <span>Reuse earlier translations from the translation memory</span>
+                 </label>
+                 <label className="mt-2 flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={runQaAfterTranslating}
+                      onChange={(e) => setRunQaAfterTranslating(e.target.checked)}
+                      className="w-4 h-4 rounded text-brand-primary border-gray-300 focus:ring-brand-secondary"
+                    />
+                    <span>Check each translation afterwards with a back-translation (one extra request per language)</span>
+                 </label>
+                 <div className="mt-4">
+                    <GlossaryManager glossary={glossary} onChange={handleGlossaryChange} preferredLanguages={selectedLanguages} />
+                 </div>
                </div>
             )}
 
             {step === 'translated' && translations.length > 0 && (
               <div className="mt-8">
+                 {sourceDuration !== null && (
+                   <label className="mb-3 flex items-center gap-2 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={fitToDuration}
+                        onChange={(e) => setFitToDuration(e.target.checked)}
+                        className="w-4 h-4 rounded text-brand-primary border-gray-300 focus:ring-brand-secondary"
+                      />
+                      <span>Fit voiceovers to the original duration ({sourceDuration.toFixed(1)} s)</span>
+                   </label>
+                 )}
+                 <div className="mb-6">
+                    <PronunciationLexiconManager lexicon={lexicon} onChange={handleLexiconChange} preferredLanguages={selectedLanguages} />
+                 </div>
+                 <MusicBedPanel musicBed={musicBed} onChange={setMusicBed} />
+                 <BatchVoiceoverPanel
+                    translations={translations}
+                    batch={batch}
+                    concurrency={batchConcurrency}
+                    onConcurrencyChange={setBatchConcurrency}
+                    onGenerateAll={() => handleGenerateAll(false)}
+                    onRetryFailed={() => handleGenerateAll(true)}
+                    onCancel={handleCancelBatch}
+                 />
                  <TranslationTabs 
                     translations={translations}
+                    originalSegments={originalSegments}
+                    originalLanguage={detectedLanguage}
                     activeTab={activeTab}
                     onTabClick={setActiveTab}
                     onGenerateVoiceover={handleGenerateVoiceover}
+                    onCancelVoiceover={handleCancelVoiceover}
+                    onVoiceChange={handleVoiceChange}
+                    onPreviewVoice={handlePreviewVoice}
+                    onSpeakerVoiceChange={handleSpeakerVoiceChange}
+                    onSaveTranslation={handleSaveTranslation}
+                    onRetranslate={handleRetranslate}
+                    retranslatingLanguage={retranslatingLanguage}
+                    onRunQa={handleRunQa}
+                    onApplyMastering={handleApplyMastering}
+                    onSpeakingRateChange={handleSpeakingRateChange}
+                    fitTarget={fitToDuration ? sourceDuration : null}
+                    musicBed={musicBed}
+                    sourceVideo={sourceMedia && isVideoFile(sourceMedia) ? sourceMedia : null}
                  />
               </div>
             )}
@@ -239,6 +1041,19 @@ const App: React.FC = () => {
             My Translator and Voiceover Generator
           </h1>
           <p className="text-gray-600 mt-2 text-sm">Created by Alexandre Freire</p>
+          {getAIProvider().name === 'local' && (
+            <span className="mt-2 px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-800 border border-yellow-300">
+              Offline mode: using the local stand-in provider
+            </span>
+          )}
+          <button
+            onClick={() => setShowHistory(open => !open)}
+            disabled={step === 'transcribing' || step === 'translating' || translations.some(t => t.isGeneratingAudio)}
+            title={translations.some(t => t.isGeneratingAudio) ? 'Available once the voiceovers being generated are done' : undefined}
+            className="mt-3 px-3 py-1 text-sm rounded-md border border-gray-medium text-brand-primary bg-white hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {showHistory ? 'Back to current project' : 'Project History'}
+          </button>
         </header>
         
         <main className="bg-white border border-gray-medium rounded-lg shadow-xl p-6 md:p-8 min-h-[30rem] flex flex-col items-center justify-center transition-all duration-300">
@@ -252,7 +1067,16 @@ const App: React.FC = () => {
         </main>
 
         {(step !== 'initial' && step !== 'transcribing') && (
-            <div className="mt-6 text-center">
+            <div className="mt-6 flex justify-center items-center gap-6">
+                {step === 'translated' && projectId && (
+                    <button
+                        onClick={handleExportProject}
+                        disabled={isExportingProject}
+                        className="text-brand-primary hover:underline font-medium disabled:opacity-50 disabled:no-underline"
+                    >
+                        {isExportingProject ? 'Exporting...' : 'Export project'}
+                    </button>
+                )}
                 <button onClick={handleReset} className="text-brand-primary hover:underline font-medium">
                     Start Over
                 </button>
@@ -1,5 +1,6 @@
-import React, { useState, useRef, useCallback } from 'react';
-import { UploadIcon, StopIcon, DocumentTextIcon } from './Icons';
+import React, { useState } from 'react';
+import { UploadIcon, DocumentTextIcon } from './Icons';
+import RecordingStudio from './RecordingStudio';
 
 interface AudioInputProps {
   onSubmit: (audioBlob: Blob) => void;
@@ -7,9 +8,6 @@ interface AudioInputProps {
 }
 
 const AudioInput: React.FC<AudioInputProps> = ({ onSubmit, onTextSubmit }) => {
-  const [isRecording, setIsRecording] = useState(false);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
   const [text, setText] = useState('');
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -19,76 +17,6 @@ const AudioInput: React.FC<AudioInputProps> = ({ onSubmit, onTextSubmit }) => {
     }
   };
 
-  const getSupportedMimeType = () => {
-    // Prioritize MP4 for Safari/iOS compatibility
-    const types = [
-      'audio/mp4',
-      'audio/webm;codecs=opus',
-      'audio/webm',
-      'audio/ogg',
-      'audio/wav'
-    ];
-    for (const type of types) {
-      if (MediaRecorder.isTypeSupported(type)) {
-        console.log(`Using supported mime type: ${type}`);
-        return type;
-      }
-    }
-    console.warn("No specific mime type supported found, using default.");
-    return ''; // Let the browser default
-  };
-
-  const startRecording = useCallback(async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      setIsRecording(true);
-      audioChunksRef.current = [];
-
-      const mimeType = getSupportedMimeType();
-      const options = mimeType ? { mimeType } : undefined;
-
-      // Initialize recorder with supported mimeType if found
-      const recorder = new MediaRecorder(stream, options);
-      mediaRecorderRef.current = recorder;
-
-      recorder.addEventListener('dataavailable', event => {
-        if (event.data.size > 0) {
-            audioChunksRef.current.push(event.data);
-        }
-      });
-
-      recorder.addEventListener('stop', () => {
-        // IMPORTANT: Use the actual mimeType from the recorder if available, otherwise the one we requested
-        // iOS Safari might default to audio/mp4 even if we asked for something else if unsupported
-        const finalType = recorder.mimeType || mimeType || 'audio/mp4'; 
-        console.log(`Recording stopped. Final mime type: ${finalType}, Chunks: ${audioChunksRef.current.length}`);
-        
-        const audioBlob = new Blob(audioChunksRef.current, { type: finalType });
-        console.log(`Created Blob size: ${audioBlob.size}`);
-        
-        if (audioBlob.size === 0) {
-            alert("Recording failed: Empty audio file. Please try again.");
-        } else {
-            onSubmit(audioBlob);
-        }
-        
-        stream.getTracks().forEach(track => track.stop());
-      });
-
-      recorder.start();
-    } catch (err) {
-      console.error("Error accessing microphone:", err);
-      alert("Could not access microphone. Please ensure permissions are granted and you are using HTTPS.");
-    }
-  }, [onSubmit]);
-
-  const stopRecording = useCallback(() => {
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
-    }
-  }, []);
-
   const handleTextButtonClick = () => {
     if (text.trim()) {
       onTextSubmit(text);
@@ -107,13 +35,13 @@ const AudioInput: React.FC<AudioInputProps> = ({ onSubmit, onTextSubmit }) => {
             <p className="mb-2 text-sm text-gray-600">
               <span className="font-semibold">Click to upload</span> or drag and drop
             </p>
-            <p className="text-xs text-gray-400">MP3, WAV, OGG, WEBM, etc.</p>
+            <p className="text-xs text-gray-400">MP3, WAV, OGG, WEBM, or MP4/WebM video</p>
           </div>
           <input 
             id="audio-upload" 
             type="file" 
             className="hidden" 
-            accept="audio/*,audio/mpeg,audio/wav,audio/mp4,audio/x-m4a,.mp3,.wav,.m4a,.mp4,.ogg,.webm" 
+            accept="audio/*,audio/mpeg,audio/wav,audio/mp4,audio/x-m4a,video/mp4,video/webm,.mp3,.wav,.m4a,.mp4,.ogg,.webm" 
             onChange={handleFileChange} 
           />
         </label>
@@ -126,22 +54,7 @@ const AudioInput: React.FC<AudioInputProps> = ({ onSubmit, onTextSubmit }) => {
       </div>
 
       <div className="w-full max-w-md flex justify-center">
-        {!isRecording ? (
-          <button
-            onClick={startRecording}
-            className="flex items-center justify-center px-6 py-3 space-x-3 font-bold text-white transition-colors rounded-md bg-brand-primary hover:bg-brand-secondary shadow-sm hover:shadow-md"
-          >
-            <span>Start Recording 🎙️</span>
-          </button>
-        ) : (
-          <button
-            onClick={stopRecording}
-            className="flex items-center justify-center px-6 py-3 space-x-3 font-bold text-white transition-colors bg-brand-primary rounded-md hover:bg-brand-secondary animate-pulse shadow-sm"
-          >
-            <StopIcon className="w-6 h-6" />
-            <span>Stop Recording</span>
-          </button>
-        )}
+        <RecordingStudio onSubmit={onSubmit} />
       </div>
 
       <div className="w-full max-w-md flex items-center space-x-2 text-gray-400">
@@ -0,0 +1,77 @@
+import React from 'react';
+import type { Translation, VoiceoverBatch } from '../types';
+import { PlayIcon, SpinnerIcon } from './Icons';
+
+interface BatchVoiceoverPanelProps {
+  translations: Translation[];
+  batch: VoiceoverBatch | null;
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onGenerateAll: () => void;
+  onRetryFailed: () => void;
+  onCancel: () => void;
+}
+
+const BatchVoiceoverPanel: React.FC<BatchVoiceoverPanelProps> = ({ translations, batch, concurrency, onConcurrencyChange, onGenerateAll, onRetryFailed, onCancel }) => {
+  const isRunning = !!batch?.isRunning;
+  const pendingCount = translations.filter(t => (!t.audioUrl || t.isAudioStale) && !t.isGeneratingAudio).length;
+  const failedCount = translations.filter(t => t.audioError && !t.isGeneratingAudio).length;
+  const finished = batch ? batch.completed + batch.failed : 0;
+  const percent = batch && batch.total > 0 ? Math.round((finished / batch.total) * 100) : 0;
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 border border-gray-medium rounded-md">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={onGenerateAll}
+          disabled={isRunning || pendingCount === 0}
+          className="flex items-center justify-center px-4 py-2 bg-brand-primary text-white font-bold rounded-md hover:bg-brand-secondary transition-colors shadow-sm disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {isRunning ? <SpinnerIcon className="w-5 h-5 mr-2" /> : <PlayIcon className="w-5 h-5 mr-2" />}
+          <span>Generate all voiceovers</span>
+        </button>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <span>Parallel requests</span>
+          <select
+            value={concurrency}
+            disabled={isRunning}
+            onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+            className="px-2 py-1 bg-white border border-gray-medium rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary text-gray-800"
+          >
+            {[1, 2, 3, 4, 6].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        {isRunning && (
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 text-sm rounded-md border border-gray-medium text-gray-700 hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+        {failedCount > 0 && !isRunning && (
+          <button
+            onClick={onRetryFailed}
+            className="px-3 py-1 text-sm rounded-md border border-red-500 text-red-600 hover:bg-red-50 transition-colors"
+          >
+            Retry {failedCount} failed
+          </button>
+        )}
+      </div>
+
+      {batch && (
+        <div className="mt-3">
+          <div className="flex justify-between text-sm text-gray-600 mb-1">
+            <span>{finished}/{batch.total} languages done{batch.failed > 0 ? `, ${batch.failed} failed` : ''}</span>
+            <span>{percent}%</span>
+          </div>
+          <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div className="h-full bg-brand-primary transition-all" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchVoiceoverPanel;
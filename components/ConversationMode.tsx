@@ -0,0 +1,255 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { ConversationSide, ConversationTurn } from '../types';
+import { CONVERSATION_MAX_TURN_SECONDS, DEFAULT_VOICE, LANGUAGES, VOICES } from '../constants';
+import { transcribeAudio, translateText, generateVoiceover } from '../services/geminiService';
+import { describeError, isCancellation, isNoSpeech } from '../services/aiErrors';
+import { createMicrophoneSource } from '../services/liveAudio';
+import type { LiveAudioSource } from '../services/liveAudio';
+import { fileToBase64, preprocessAudio } from '../utils/audioUtils';
+import { formatConversationTranscript } from '../utils/conversationExport';
+import { downloadTextFile } from '../utils/subtitleUtils';
+import { MicIcon, PlayIcon, SpinnerIcon, StopIcon, DownloadIcon } from './Icons';
+
+type SideKey = 'a' | 'b';
+
+interface ConversationModeProps {
+  onClose: () => void;
+}
+
+interface RecordingHandle {
+  side: SideKey;
+  source: LiveAudioSource;
+}
+
+const languageName = (code: string) => LANGUAGES.find(l => l.code === code)?.name || code;
+const otherSide = (side: SideKey): SideKey => side === 'a' ? 'b' : 'a';
+
+const DEFAULT_SIDES: Record<SideKey, ConversationSide> = {
+  a: { name: 'Person A', languageCode: 'pt', voiceName: 'Kore' },
+  b: { name: 'Person B', languageCode: 'en', voiceName: DEFAULT_VOICE },
+};
+
+// Two people, two languages: each side records a turn, which is translated into the
+// other side's language and spoken aloud with the speaking side's voice.
+const ConversationMode: React.FC<ConversationModeProps> = ({ onClose }) => {
+  const [sides, setSides] = useState<Record<SideKey, ConversationSide>>(DEFAULT_SIDES);
+  const [recordingSide, setRecordingSide] = useState<SideKey | null>(null);
+  const [turns, setTurns] = useState<ConversationTurn[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const sourceRef = useRef<RecordingHandle | null>(null);
+  // Turns are handled in the order they were spoken, so replies are played in order too.
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const nextIdRef = useRef(0);
+  const playerRef = useRef<HTMLAudioElement | null>(null);
+  const logEndRef = useRef<HTMLDivElement | null>(null);
+  // Aborts requests still in flight when the conversation is closed.
+  const abortRef = useRef(new AbortController());
+  // Read by queued work and the unmount cleanup, which outlive the render that scheduled them.
+  const sidesRef = useRef(sides);
+  const turnsRef = useRef<ConversationTurn[]>(turns);
+  useEffect(() => {
+    sidesRef.current = sides;
+  }, [sides]);
+  useEffect(() => {
+    turnsRef.current = turns;
+  }, [turns]);
+
+  useEffect(() => {
+    logEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [turns.length]);
+
+  useEffect(() => () => {
+    sourceRef.current?.source.stop();
+    abortRef.current.abort();
+    playerRef.current?.pause();
+    turnsRef.current.forEach(turn => turn.audioUrl && URL.revokeObjectURL(turn.audioUrl));
+  }, []);
+
+  const updateTurn = (id: number, patch: Partial<ConversationTurn>) => {
+    setTurns(prev => prev.map(turn => turn.id === id ? { ...turn, ...patch } : turn));
+  };
+
+  const play = (url: string) => {
+    playerRef.current?.pause();
+    const audio = new Audio(url);
+    playerRef.current = audio;
+    audio.play().catch(err => console.error('Error playing conversation turn:', err));
+  };
+
+  const processTurn = async (id: number, chunk: Blob, speaker: ConversationSide, listener: ConversationSide) => {
+    const { signal } = abortRef.current;
+    const processed = await preprocessAudio(chunk, { maxChunkSeconds: Infinity, overlapSeconds: 0 });
+    const [audio] = processed.chunks;
+    if (!audio) {
+      setTurns(prev => prev.filter(turn => turn.id !== id));
+      return;
+    }
+    const result = await transcribeAudio(await fileToBase64(new File([audio.blob], 'audio')), audio.blob.type, signal)
+      .catch(err => {
+        if (isNoSpeech(err)) return null;
+        throw err;
+      });
+    if (!result) {
+      // Noise or music, not a turn.
+      setTurns(prev => prev.filter(turn => turn.id !== id));
+      return;
+    }
+    const { transcript } = result;
+    updateTurn(id, { original: transcript });
+
+    const translated = await translateText(transcript, languageName(speaker.languageCode), [listener.languageCode], undefined, signal);
+    const translation = translated[listener.languageCode] || '';
+    updateTurn(id, { translation });
+
+    const audioUrl = await generateVoiceover(translation, { voiceName: speaker.voiceName }, { signal });
+    updateTurn(id, { audioUrl, status: 'done' });
+    play(audioUrl);
+  };
+
+  const handleChunk = (side: SideKey, chunk: Blob) => {
+    const id = nextIdRef.current++;
+    // The sides' settings at the time of speaking apply, even if changed meanwhile.
+    const speaker = sidesRef.current[side];
+    const listener = sidesRef.current[otherSide(side)];
+    setTurns(prev => [...prev, { id, side, time: Date.now(), original: '', translation: '', status: 'processing' }]);
+    queueRef.current = queueRef.current
+      .then(() => processTurn(id, chunk, speaker, listener))
+      .catch(err => {
+        if (isCancellation(err)) return;
+        console.error('Conversation turn error:', err);
+        updateTurn(id, { status: 'failed', error: describeError(err) });
+      });
+  };
+
+  const stopRecording = () => {
+    sourceRef.current?.source.stop();
+    sourceRef.current = null;
+    setRecordingSide(null);
+  };
+
+  const startRecording = async (side: SideKey) => {
+    if (sourceRef.current) stopRecording();
+    playerRef.current?.pause();
+    setError(null);
+    const source = createMicrophoneSource(CONVERSATION_MAX_TURN_SECONDS);
+    sourceRef.current = { side, source };
+    setRecordingSide(side);
+    try {
+      await source.start(chunk => handleChunk(side, chunk), () => setRecordingSide(current => current === side ? null : current));
+    } catch (err) {
+      console.error('Error accessing microphone:', err);
+      setError('Could not access microphone. Please ensure permissions are granted and you are using HTTPS.');
+      sourceRef.current = null;
+      setRecordingSide(null);
+    }
+  };
+
+  const handleExport = () => {
+    downloadTextFile(formatConversationTranscript(turns, sides), 'conversation_transcript.txt', 'text/plain');
+  };
+
+  const updateSide = (side: SideKey, patch: Partial<ConversationSide>) => {
+    setSides(prev => ({ ...prev, [side]: { ...prev[side], ...patch } }));
+  };
+
+  const inputClass = "px-2 py-1 bg-white border border-gray-medium rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary text-gray-800 text-sm";
+
+  const renderSide = (side: SideKey) => {
+    const settings = sides[side];
+    const isRecording = recordingSide === side;
+    return (
+      <div className="flex-1 p-4 border border-gray-medium rounded-md bg-gray-50 space-y-2">
+        <input
+          value={settings.name}
+          onChange={(e) => updateSide(side, { name: e.target.value })}
+          className={`${inputClass} w-full font-semibold`}
+          aria-label="Name"
+        />
+        <select
+          value={settings.languageCode}
+          disabled={isRecording}
+          onChange={(e) => updateSide(side, { languageCode: e.target.value })}
+          className={`${inputClass} w-full`}
+          aria-label="Language"
+        >
+          {LANGUAGES.map(language => <option key={language.code} value={language.code}>{language.name}</option>)}
+        </select>
+        <select
+          value={settings.voiceName}
+          onChange={(e) => updateSide(side, { voiceName: e.target.value })}
+          className={`${inputClass} w-full`}
+          aria-label="Voice"
+        >
+          {VOICES.map(voice => <option key={voice.name} value={voice.name}>{voice.name} ({voice.gender}, {voice.description})</option>)}
+        </select>
+        <button
+          onClick={() => isRecording ? stopRecording() : startRecording(side)}
+          className={`w-full flex items-center justify-center px-4 py-3 font-bold text-white transition-colors rounded-md bg-brand-primary hover:bg-brand-secondary shadow-sm ${isRecording ? 'animate-pulse' : ''}`}
+        >
+          {isRecording
+            ? <><StopIcon className="w-5 h-5 mr-2" /><span>Done speaking</span></>
+            : <><MicIcon className="w-5 h-5 mr-2" /><span>Speak {languageName(settings.languageCode)}</span></>}
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-full">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-brand-primary">Conversation</h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleExport}
+            disabled={!turns.some(turn => turn.status === 'done')}
+            className="flex items-center px-3 py-1 text-sm rounded-md border border-gray-medium text-brand-primary hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <DownloadIcon className="w-4 h-4 mr-1" />
+            Export transcript
+          </button>
+          <button onClick={() => { stopRecording(); onClose(); }} className="px-3 py-1 text-sm rounded-md border border-gray-medium text-brand-primary hover:bg-gray-100 transition-colors">
+            Close
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        {renderSide('a')}
+        {renderSide('b')}
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      <div className="mt-4 h-80 overflow-y-auto p-3 border border-gray-medium rounded-md space-y-3">
+        {turns.length === 0 && (
+          <p className="text-sm text-gray-400">Press a microphone button, speak, then press it again. The translation is spoken to the other person.</p>
+        )}
+        {turns.map(turn => {
+          const speaker = sides[turn.side];
+          return (
+            <div key={turn.id} className={`flex ${turn.side === 'a' ? 'justify-start' : 'justify-end'}`}>
+              <div className={`max-w-[80%] p-3 rounded-lg text-sm ${turn.side === 'a' ? 'bg-blue-50 border border-blue-200' : 'bg-green-50 border border-green-200'}`}>
+                <p className="text-xs font-semibold text-gray-500">{speaker.name} · {new Date(turn.time).toLocaleTimeString()}</p>
+                {turn.original && <p className="text-gray-600">{turn.original}</p>}
+                {turn.translation && <p className="mt-1 text-gray-900 font-medium">{turn.translation}</p>}
+                {turn.status === 'processing' && (
+                  <p className="mt-1 flex items-center text-gray-500"><SpinnerIcon className="w-4 h-4 mr-1" />Translating...</p>
+                )}
+                {turn.status === 'failed' && <p className="mt-1 text-red-600">Failed: {turn.error}</p>}
+                {turn.audioUrl && (
+                  <button onClick={() => play(turn.audioUrl!)} className="mt-1 flex items-center text-brand-primary hover:underline">
+                    <PlayIcon className="w-4 h-4 mr-1" />Replay
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+        <div ref={logEndRef} />
+      </div>
+    </div>
+  );
+};
+
+export default ConversationMode;
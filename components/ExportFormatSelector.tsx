@@ -0,0 +1,53 @@
+import React from 'react';
+import { AUDIO_EXPORT_FORMATS } from '../utils/audioEncoding';
+import type { AudioExportFormat, AudioExportSettings } from '../utils/audioEncoding';
+
+interface ExportFormatSelectorProps {
+  settings: AudioExportSettings;
+  onChange: (settings: AudioExportSettings) => void;
+  disabled?: boolean;
+}
+
+const selectClass = "px-2 py-2 bg-white border border-gray-medium rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary text-gray-800 text-sm";
+
+const ExportFormatSelector: React.FC<ExportFormatSelectorProps> = ({ settings, onChange, disabled }) => {
+  const { bitrates } = AUDIO_EXPORT_FORMATS[settings.format];
+
+  const handleFormatChange = (format: AudioExportFormat) => {
+    const options = AUDIO_EXPORT_FORMATS[format].bitrates;
+    // Keep the current bitrate when the new format offers it, otherwise pick the middle option.
+    const bitrateKbps = options.includes(settings.bitrateKbps) ? settings.bitrateKbps : options[Math.floor(options.length / 2)] ?? settings.bitrateKbps;
+    onChange({ format, bitrateKbps });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={settings.format}
+        disabled={disabled}
+        onChange={(e) => handleFormatChange(e.target.value as AudioExportFormat)}
+        className={selectClass}
+        aria-label="Export format"
+      >
+        {(Object.keys(AUDIO_EXPORT_FORMATS) as AudioExportFormat[]).map(format => (
+          <option key={format} value={format}>{AUDIO_EXPORT_FORMATS[format].label}</option>
+        ))}
+      </select>
+      {bitrates.length > 0 && (
+        <select
+          value={settings.bitrateKbps}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...settings, bitrateKbps: Number(e.target.value) })}
+          className={selectClass}
+          aria-label="Bitrate"
+        >
+          {bitrates.map(kbps => (
+            <option key={kbps} value={kbps}>{kbps} kbps</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default ExportFormatSelector;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import type { Glossary } from '../types';
+import { LANGUAGES } from '../constants';
+import { ChevronDownIcon } from './Icons';
+
+interface GlossaryManagerProps {
+  glossary: Glossary;
+  onChange: (glossary: Glossary) => void;
+  // Languages offered first in the picker, usually the current translation targets.
+  preferredLanguages: string[];
+}
+
+const inputClass = "px-2 py-1 bg-white border border-gray-medium rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary text-gray-800 text-sm";
+const smallButtonClass = "px-3 py-1 text-sm rounded-md border border-gray-medium text-brand-primary hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const GlossaryManager: React.FC<GlossaryManagerProps> = ({ glossary, onChange, preferredLanguages }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [languageCode, setLanguageCode] = useState(preferredLanguages[0] || LANGUAGES[0].code);
+  const [source, setSource] = useState('');
+  const [target, setTarget] = useState('');
+  const [protectedTerm, setProtectedTerm] = useState('');
+
+  const orderedLanguages = [
+    ...LANGUAGES.filter(l => preferredLanguages.includes(l.code)),
+    ...LANGUAGES.filter(l => !preferredLanguages.includes(l.code)),
+  ];
+  const languageName = (code: string) => LANGUAGES.find(l => l.code === code)?.name || code;
+
+  const handleAddTerm = () => {
+    if (!source.trim() || !target.trim()) return;
+    const terms = glossary.terms.filter(t => !(t.languageCode === languageCode && t.source.toLowerCase() === source.trim().toLowerCase()));
+    onChange({ ...glossary, terms: [...terms, { languageCode, source: source.trim(), target: target.trim() }] });
+    setSource('');
+    setTarget('');
+  };
+
+  const handleAddProtected = () => {
+    const term = protectedTerm.trim();
+    if (!term || glossary.doNotTranslate.includes(term)) return;
+    onChange({ ...glossary, doNotTranslate: [...glossary.doNotTranslate, term] });
+    setProtectedTerm('');
+  };
+
+  return (
+    <div className="w-full border border-gray-medium rounded-md">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-2 text-left text-sm text-gray-800"
+      >
+        <span>
+          <span className="font-semibold text-brand-primary">Glossary</span>
+          <span className="ml-2 text-gray-500">{glossary.terms.length} term pair{glossary.terms.length === 1 ? '' : 's'}, {glossary.doNotTranslate.length} do-not-translate</span>
+        </span>
+        <ChevronDownIcon className={`w-5 h-5 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4">
+          <div>
+            <p className="text-sm font-medium text-gray-600 mb-2">Term pairs</p>
+            {glossary.terms.length > 0 && (
+              <ul className="mb-2 space-y-1 text-sm">
+                {glossary.terms.map((term, index) => (
+                  <li key={`${term.languageCode}-${term.source}`} className="flex items-center gap-2 text-gray-800">
+                    <span className="w-24 text-gray-500">{languageName(term.languageCode)}</span>
+                    <span>{term.source}</span>
+                    <span className="text-gray-400">→</span>
+                    <span className="font-medium">{term.target}</span>
+                    <button
+                      onClick={() => onChange({ ...glossary, terms: glossary.terms.filter((_, i) => i !== index) })}
+                      className="ml-auto text-red-600 hover:underline text-xs"
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex flex-wrap items-center gap-2">
+              <select value={languageCode} onChange={(e) => setLanguageCode(e.target.value)} className={inputClass} aria-label="Target language">
+                {orderedLanguages.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+              </select>
+              <input value={source} onChange={(e) => setSource(e.target.value)} placeholder="Source term" className={inputClass} />
+              <input
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddTerm()}
+                placeholder="Required translation"
+                className={inputClass}
+              />
+              <button onClick={handleAddTerm} disabled={!source.trim() || !target.trim()} className={smallButtonClass}>Add</button>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-600 mb-2">Do not translate</p>
+            {glossary.doNotTranslate.length > 0 && (
+              <div className="mb-2 flex flex-wrap gap-2">
+                {glossary.doNotTranslate.map(term => (
+                  <span key={term} className="flex items-center gap-1 px-2 py-0.5 text-sm rounded-full bg-gray-100 border border-gray-medium text-gray-800">
+                    {term}
+                    <button
+                      onClick={() => onChange({ ...glossary, doNotTranslate: glossary.doNotTranslate.filter(t => t !== term) })}
+                      className="text-gray-500 hover:text-red-600"
+                      aria-label={`Remove ${term}`}
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <input
+                value={protectedTerm}
+                onChange={(e) => setProtectedTerm(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddProtected()}
+                placeholder="Brand or product name"
+                className={inputClass}
+              />
+              <button onClick={handleAddProtected} disabled={!protectedTerm.trim()} className={smallButtonClass}>Add</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlossaryManager;
@@ -0,0 +1,269 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { LiveCaption } from '../types';
+import { LANGUAGES, LIVE_CHUNK_SECONDS } from '../constants';
+import { transcribeAudio, translateText, generateVoiceover } from '../services/geminiService';
+import { describeError, isCancellation, isNoSpeech } from '../services/aiErrors';
+import { createMicrophoneSource, createFileReplaySource } from '../services/liveAudio';
+import type { LiveAudioSource } from '../services/liveAudio';
+import { fileToBase64, preprocessAudio } from '../utils/audioUtils';
+import { formatClock } from '../utils/subtitleUtils';
+import { getDefaultVoice } from '../utils/voicePreferences';
+import LanguageSelector from './LanguageSelector';
+import Flag from './Flag';
+import { MicIcon, SpinnerIcon, StopIcon } from './Icons';
+
+interface LiveInterpreterProps {
+  initialLanguages: string[];
+  onClose: () => void;
+}
+
+const languageName = (code: string) => LANGUAGES.find(l => l.code === code)?.name || code;
+
+// Meeting mode: audio arrives in short chunks that are transcribed and translated one
+// after another, so captions roll in while the speaker is still talking.
+const LiveInterpreter: React.FC<LiveInterpreterProps> = ({ initialLanguages, onClose }) => {
+  const [languages, setLanguages] = useState<string[]>(initialLanguages);
+  const [sourceKind, setSourceKind] = useState<'microphone' | 'file'>('microphone');
+  const [replayFile, setReplayFile] = useState<File | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [pending, setPending] = useState(0);
+  const [captions, setCaptions] = useState<LiveCaption[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [speakLatest, setSpeakLatest] = useState(false);
+  const [playbackLanguage, setPlaybackLanguage] = useState(initialLanguages[0] || '');
+
+  const sourceRef = useRef<LiveAudioSource | null>(null);
+  // Chunks are processed strictly in order, one at a time.
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const startedAtRef = useRef(0);
+  const nextIdRef = useRef(0);
+  const playerRef = useRef<HTMLAudioElement | null>(null);
+  const captionsEndRef = useRef<HTMLDivElement | null>(null);
+  // Aborts requests still in flight when the interpreter is closed.
+  const abortRef = useRef(new AbortController());
+  // Read by queued work, which outlives the render that scheduled it.
+  const settingsRef = useRef({ languages, speakLatest, playbackLanguage });
+  useEffect(() => {
+    settingsRef.current = { languages, speakLatest, playbackLanguage };
+  }, [languages, speakLatest, playbackLanguage]);
+
+  useEffect(() => {
+    captionsEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [captions]);
+
+  useEffect(() => {
+    if (!languages.includes(playbackLanguage)) setPlaybackLanguage(languages[0] || '');
+  }, [languages, playbackLanguage]);
+
+  const stopPlayback = () => {
+    if (playerRef.current) {
+      playerRef.current.pause();
+      URL.revokeObjectURL(playerRef.current.src);
+      playerRef.current = null;
+    }
+  };
+
+  useEffect(() => () => {
+    sourceRef.current?.stop();
+    abortRef.current.abort();
+    stopPlayback();
+  }, []);
+
+  // Only the newest utterance is spoken; anything older is already stale.
+  const speak = async (id: number, text: string, code: string) => {
+    const url = await generateVoiceover(text, getDefaultVoice(code), { signal: abortRef.current.signal });
+    if (id !== nextIdRef.current - 1) {
+      URL.revokeObjectURL(url);
+      return;
+    }
+    stopPlayback();
+    const audio = new Audio(url);
+    playerRef.current = audio;
+    audio.play().catch(err => console.error('Error playing live translation:', err));
+  };
+
+  const processChunk = async (chunk: Blob, offset: number) => {
+    const processed = await preprocessAudio(chunk, { maxChunkSeconds: Infinity, overlapSeconds: 0 });
+    const [audio] = processed.chunks;
+    if (!audio) return; // silence between utterances
+
+    const result = await transcribeAudio(await fileToBase64(new File([audio.blob], 'audio')), audio.blob.type, abortRef.current.signal)
+      .catch(err => {
+        if (isNoSpeech(err)) return null;
+        throw err;
+      });
+    if (!result) return; // noise or music, nothing to caption
+    const { transcript, languageName: sourceName, languageCode: sourceCode } = result;
+
+    const { languages: targets, speakLatest: shouldSpeak, playbackLanguage: spokenCode } = settingsRef.current;
+    const id = nextIdRef.current++;
+    const caption: LiveCaption = { id, offset, original: transcript, languageName: sourceName, translations: {} };
+    setCaptions(prev => [...prev, caption]);
+
+    const wanted = targets.filter(code => code !== sourceCode);
+    const translations = wanted.length > 0 ? await translateText(transcript, sourceName, wanted, undefined, abortRef.current.signal) : {};
+    if (targets.includes(sourceCode)) translations[sourceCode] = transcript;
+    setCaptions(prev => prev.map(c => c.id === id ? { ...c, translations } : c));
+
+    if (shouldSpeak && translations[spokenCode]) {
+      speak(id, translations[spokenCode], spokenCode).catch(err => console.error('Error speaking live translation:', err));
+    }
+  };
+
+  const handleChunk = (chunk: Blob) => {
+    const offset = Math.max(0, (Date.now() - startedAtRef.current) / 1000 - LIVE_CHUNK_SECONDS);
+    setPending(count => count + 1);
+    queueRef.current = queueRef.current
+      .then(() => processChunk(chunk, offset))
+      .catch(err => {
+        if (isCancellation(err)) return;
+        console.error('Live chunk error:', err);
+        const id = nextIdRef.current++;
+        setCaptions(prev => [...prev, { id, offset, original: '', languageName: '', translations: {}, error: describeError(err) }]);
+      })
+      .finally(() => setPending(count => count - 1));
+  };
+
+  const handleStart = async () => {
+    if (languages.length === 0) {
+      setError('Select at least one language to interpret into.');
+      return;
+    }
+    if (sourceKind === 'file' && !replayFile) {
+      setError('Choose a recording to replay.');
+      return;
+    }
+    setError(null);
+    const source = sourceKind === 'file' && replayFile
+      ? createFileReplaySource(replayFile, LIVE_CHUNK_SECONDS)
+      : createMicrophoneSource(LIVE_CHUNK_SECONDS);
+    sourceRef.current = source;
+    startedAtRef.current = Date.now();
+    setIsRunning(true);
+    try {
+      await source.start(handleChunk, () => setIsRunning(false));
+    } catch (err) {
+      console.error('Error starting live mode:', err);
+      setError(sourceKind === 'file'
+        ? `Could not replay the file: ${describeError(err)}`
+        : 'Could not access microphone. Please ensure permissions are granted and you are using HTTPS.');
+      setIsRunning(false);
+    }
+  };
+
+  const handleStop = () => {
+    sourceRef.current?.stop();
+    sourceRef.current = null;
+    setIsRunning(false);
+  };
+
+  const inputClass = "px-2 py-1 bg-white border border-gray-medium rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary text-gray-800 text-sm";
+
+  return (
+    <div className="w-full">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-brand-primary">Live Interpreter</h3>
+        <button onClick={() => { handleStop(); onClose(); }} className="px-3 py-1 text-sm rounded-md border border-gray-medium text-brand-primary hover:bg-gray-100 transition-colors">
+          Close
+        </button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <LanguageSelector selectedLanguages={languages} onChange={setLanguages} />
+        <select
+          value={sourceKind}
+          disabled={isRunning}
+          onChange={(e) => setSourceKind(e.target.value as 'microphone' | 'file')}
+          className={inputClass}
+          aria-label="Audio source"
+        >
+          <option value="microphone">Microphone</option>
+          <option value="file">Replay a recording</option>
+        </select>
+        {sourceKind === 'file' && (
+          <input
+            type="file"
+            accept="audio/*,video/mp4,video/webm"
+            disabled={isRunning}
+            onChange={(e) => setReplayFile(e.target.files?.[0] || null)}
+            className="text-sm text-gray-600"
+          />
+        )}
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-3 text-sm text-gray-600">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={speakLatest}
+            onChange={(e) => setSpeakLatest(e.target.checked)}
+            className="w-4 h-4 rounded text-brand-primary border-gray-300 focus:ring-brand-secondary"
+          />
+          <span>Speak the latest translation in</span>
+        </label>
+        <select
+          value={playbackLanguage}
+          disabled={!speakLatest || languages.length === 0}
+          onChange={(e) => setPlaybackLanguage(e.target.value)}
+          className={inputClass}
+          aria-label="Playback language"
+        >
+          {languages.map(code => <option key={code} value={code}>{languageName(code)}</option>)}
+        </select>
+      </div>
+
+      <div className="mt-4 flex items-center gap-3">
+        {!isRunning ? (
+          <button
+            onClick={handleStart}
+            className="flex items-center justify-center px-6 py-3 font-bold text-white transition-colors rounded-md bg-brand-primary hover:bg-brand-secondary shadow-sm"
+          >
+            <MicIcon className="w-5 h-5 mr-2" />
+            <span>Start live interpreting</span>
+          </button>
+        ) : (
+          <button
+            onClick={handleStop}
+            className="flex items-center justify-center px-6 py-3 font-bold text-white transition-colors rounded-md bg-brand-primary hover:bg-brand-secondary animate-pulse shadow-sm"
+          >
+            <StopIcon className="w-5 h-5 mr-2" />
+            <span>Stop</span>
+          </button>
+        )}
+        {pending > 0 && (
+          <span className="flex items-center text-sm text-gray-500">
+            <SpinnerIcon className="w-4 h-4 mr-2" />
+            Processing {pending} chunk{pending === 1 ? '' : 's'}...
+          </span>
+        )}
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      <div className="mt-4 h-80 overflow-y-auto p-3 bg-gray-50 border border-gray-medium rounded-md space-y-3">
+        {captions.length === 0 && (
+          <p className="text-sm text-gray-400">Captions appear here a few seconds after speech starts.</p>
+        )}
+        {captions.map(caption => (
+          <div key={caption.id} className="text-sm">
+            <div className="flex items-baseline gap-2 text-gray-500">
+              <span className="font-mono text-xs">{formatClock(caption.offset)}</span>
+              {caption.error
+                ? <span className="text-red-600">Could not process this part: {caption.error}</span>
+                : <span>{caption.original}</span>}
+            </div>
+            {Object.entries(caption.translations).map(([code, text]) => (
+              <div key={code} className="ml-12 flex items-start gap-2 text-gray-800">
+                <Flag languageCode={code} />
+                <span>{text}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+        <div ref={captionsEndRef} />
+      </div>
+    </div>
+  );
+};
+
+export default LiveInterpreter;
@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import type { MasteringReport, MasteringSettings } from '../types';
+import { ChevronDownIcon, SpinnerIcon } from './Icons';
+import { DEFAULT_MASTERING, LOUDNESS_TARGETS } from '../constants';
+import { computePeaks, pcm16ToFloat, PCM_SAMPLE_RATE } from '../utils/audioUtils';
+import { readWavPcm } from '../utils/audioEncoding';
+
+interface MasteringEditorProps {
+  audioUrl: string;
+  rawAudioUrl?: string;
+  settings?: MasteringSettings;
+  report?: MasteringReport;
+  disabled?: boolean;
+  onApply: (settings: MasteringSettings) => Promise<void>;
+}
+
+const WAVEFORM_BARS = 160;
+const PEAK_CEILINGS = [-0.5, -1, -2, -3];
+
+interface Waveform {
+  peaks: number[];
+  duration: number;
+}
+
+async function loadWaveform(url: string): Promise<Waveform> {
+  const samples = pcm16ToFloat(await readWavPcm(url));
+  return { peaks: computePeaks(samples, WAVEFORM_BARS), duration: samples.length / PCM_SAMPLE_RATE };
+}
+
+const formatLufs = (lufs: number | null) => lufs === null ? 'silent' : `${lufs.toFixed(1)} LUFS`;
+const formatDb = (db: number) => `${db >= 0 ? '+' : '−'}${Math.abs(db).toFixed(1)} dB`;
+
+const WaveformRow: React.FC<{ label: string; waveform?: Waveform; barClass: string }> = ({ label, waveform, barClass }) => (
+  <div className="flex items-center gap-2">
+    <span className="w-20 text-xs text-gray-500">{label}{waveform && ` · ${waveform.duration.toFixed(1)} s`}</span>
+    <div className="flex-1 flex items-center h-12 gap-px bg-white border border-gray-medium rounded-md px-1">
+      {waveform?.peaks.map((peak, i) => (
+        <div key={i} className={`flex-1 rounded-sm ${barClass}`} style={{ height: `${Math.max(2, Math.min(1, peak) * 100)}%` }} />
+      ))}
+    </div>
+  </div>
+);
+
+// Post-processing controls for a voiceover, with before/after waveforms of the result.
+const MasteringEditor: React.FC<MasteringEditorProps> = ({ audioUrl, rawAudioUrl, settings = DEFAULT_MASTERING, report, disabled, onApply }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<MasteringSettings>(settings);
+  const [isApplying, setIsApplying] = useState(false);
+  const [before, setBefore] = useState<Waveform>();
+  const [after, setAfter] = useState<Waveform>();
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    Promise.all([loadWaveform(rawAudioUrl || audioUrl), loadWaveform(audioUrl)])
+      .then(([raw, mastered]) => {
+        if (cancelled) return;
+        setBefore(raw);
+        setAfter(mastered);
+      })
+      .catch(err => console.error('Error drawing voiceover waveform:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, audioUrl, rawAudioUrl]);
+
+  const update = (patch: Partial<MasteringSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+  const isChanged = JSON.stringify(draft) !== JSON.stringify(settings);
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      await onApply(draft);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const inputClass = "px-2 py-1 bg-white border border-gray-medium rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary text-gray-800 text-sm";
+
+  return (
+    <div className="mt-3 border border-gray-medium rounded-md bg-gray-50 text-sm">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between px-3 py-2 text-left text-gray-700">
+        <span>
+          Audio mastering
+          {report && (
+            <span className="ml-2 text-gray-500">
+              {formatLufs(report.outputLufs)}{report.limitedSamples > 0 && ' · limited'}
+            </span>
+          )}
+        </span>
+        <ChevronDownIcon className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-3">
+          <div className="space-y-1">
+            <WaveformRow label="Original" waveform={before} barClass="bg-gray-400" />
+            <WaveformRow label="Mastered" waveform={after} barClass="bg-brand-primary" />
+          </div>
+
+          {report && (
+            <p className="text-gray-600">
+              Loudness {formatLufs(report.inputLufs)} → {formatLufs(report.outputLufs)}, gain {formatDb(report.gainDb)}
+              {report.trimmedSeconds > 0 && `, ${report.trimmedSeconds.toFixed(1)} s of silence trimmed`}
+              {report.limitedSamples > 0 && `, limiter engaged on ${(report.limitedSamples / PCM_SAMPLE_RATE).toFixed(2)} s`}
+            </p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-gray-700">
+            <label className="flex items-center gap-2">
+              <span>Loudness</span>
+              <select
+                value={draft.loudnessTarget ?? ''}
+                onChange={(e) => update({ loudnessTarget: e.target.value === '' ? null : Number(e.target.value) })}
+                className={inputClass}
+              >
+                {LOUDNESS_TARGETS.map(target => <option key={target.value} value={target.value}>{target.label}</option>)}
+                <option value="">Off (as synthesized)</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <span>Peak ceiling</span>
+              <select
+                value={draft.peakCeilingDb}
+                onChange={(e) => update({ peakCeilingDb: Number(e.target.value) })}
+                className={inputClass}
+              >
+                {PEAK_CEILINGS.map(db => <option key={db} value={db}>{db} dBFS</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={draft.trimSilence}
+                onChange={(e) => update({ trimSilence: e.target.checked })}
+                className="w-4 h-4 rounded text-brand-primary border-gray-300 focus:ring-brand-secondary"
+              />
+              <span>Trim silence</span>
+            </label>
+            <label className="flex items-center gap-2">
+              <span>Fade in</span>
+              <input
+                type="number"
+                min={0}
+                max={2000}
+                step={10}
+                value={draft.fadeInMs}
+                onChange={(e) => update({ fadeInMs: Math.max(0, Number(e.target.value) || 0) })}
+                className={`${inputClass} w-20`}
+              />
+              <span>ms</span>
+            </label>
+            <label className="flex items-center gap-2">
+              <span>Fade out</span>
+              <input
+                type="number"
+                min={0}
+                max={2000}
+                step={10}
+                value={draft.fadeOutMs}
+                onChange={(e) => update({ fadeOutMs: Math.max(0, Number(e.target.value) || 0) })}
+                className={`${inputClass} w-20`}
+              />
+              <span>ms</span>
+            </label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleApply}
+              disabled={disabled || isApplying || !isChanged}
+              className="flex items-center px-3 py-1 rounded-md border border-brand-primary text-brand-primary hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isApplying && <SpinnerIcon className="w-4 h-4 mr-1" />}
+              Apply
+            </button>
+            {isChanged && !isApplying && (
+              <button onClick={() => setDraft(settings)} className="text-brand-primary hover:underline">
+                Reset
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MasteringEditor;
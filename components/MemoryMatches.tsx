@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import type { MemoryMatch } from '../types';
+import { ChevronDownIcon } from './Icons';
+
+interface MemoryMatchesProps {
+  matches: MemoryMatch[];
+}
+
+const MemoryMatches: React.FC<MemoryMatchesProps> = ({ matches }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const exactCount = matches.filter(m => m.kind === 'exact').length;
+  const fuzzyCount = matches.length - exactCount;
+
+  return (
+    <div className="mt-2 border border-blue-200 bg-blue-50 rounded-md text-sm">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between px-3 py-2 text-left text-blue-800">
+        <span>
+          {matches.length} segment{matches.length === 1 ? '' : 's'} from translation memory
+          <span className="ml-1 text-blue-600">({exactCount} exact, {fuzzyCount} fuzzy)</span>
+        </span>
+        <ChevronDownIcon className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {fuzzyCount > 0 && (
+        <p className="px-3 pb-2 text-yellow-800">
+          {fuzzyCount} segment{fuzzyCount === 1 ? ' was' : 's were'} reused from a similar, not identical, source. Check numbers and names before using them.
+        </p>
+      )}
+      {isOpen && (
+        <ul className="px-3 pb-3 space-y-2">
+          {matches.map(match => (
+            <li key={match.index} className="text-gray-800">
+              <span
+                className={`mr-2 px-1.5 py-0.5 text-xs rounded-full border ${match.kind === 'exact' ? 'bg-green-100 text-green-800 border-green-300' : 'bg-yellow-100 text-yellow-800 border-yellow-300'}`}
+              >
+                {match.kind === 'exact' ? 'Exact' : `Fuzzy ${Math.round(match.score * 100)}%`}
+              </span>
+              <span className="text-gray-500">{match.source}</span>
+              <span className="mx-1 text-gray-400">→</span>
+              <span>{match.target}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MemoryMatches;
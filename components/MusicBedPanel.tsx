@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import type { MusicBed, MusicBedSettings } from '../types';
+import { DEFAULT_MUSIC_BED_SETTINGS } from '../constants';
+import { sniffMediaType } from '../utils/audioUtils';
+import { UploadIcon } from './Icons';
+
+interface MusicBedPanelProps {
+  musicBed: MusicBed | null;
+  onChange: (musicBed: MusicBed | null) => void;
+}
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, unit, disabled, onChange }) => (
+  <label className="flex flex-col gap-1 text-xs text-gray-600">
+    <span>{label}: {value} {unit}</span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="accent-brand-primary"
+    />
+  </label>
+);
+
+// Project-wide background music, mixed under each language's voiceover on playback and export.
+const MusicBedPanel: React.FC<MusicBedPanelProps> = ({ musicBed, onChange }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const type = await sniffMediaType(file);
+    if (!type) {
+      setError('This file is not a supported audio format.');
+      return;
+    }
+    setError(null);
+    onChange({ blob: file, name: file.name, settings: musicBed?.settings || DEFAULT_MUSIC_BED_SETTINGS });
+  };
+
+  const update = (patch: Partial<MusicBedSettings>) => {
+    if (musicBed) onChange({ ...musicBed, settings: { ...musicBed.settings, ...patch } });
+  };
+
+  const uploadInput = (
+    <input type="file" accept="audio/*,.mp3,.wav,.m4a,.ogg" className="hidden" onChange={handleFileChange} />
+  );
+
+  if (!musicBed) {
+    return (
+      <div className="mb-6 p-4 bg-gray-50 border border-gray-medium rounded-md text-sm">
+        <label className="inline-flex items-center text-brand-primary hover:underline cursor-pointer">
+          <UploadIcon className="w-4 h-4 mr-2" />
+          Add background music
+          {uploadInput}
+        </label>
+        <span className="ml-2 text-gray-500">Mixed under every voiceover and ducked while speech plays.</span>
+        {error && <p className="mt-2 text-red-600">{error}</p>}
+      </div>
+    );
+  }
+
+  const { settings } = musicBed;
+  return (
+    <div className="mb-6 p-4 bg-gray-50 border border-gray-medium rounded-md text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-gray-700">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            className="w-4 h-4 rounded text-brand-primary border-gray-300 focus:ring-brand-secondary"
+          />
+          <span>Background music: <span className="font-semibold">{musicBed.name}</span></span>
+        </label>
+        <label className="ml-auto text-brand-primary hover:underline cursor-pointer">
+          Replace
+          {uploadInput}
+        </label>
+        <button onClick={() => onChange(null)} className="text-red-600 hover:underline">
+          Remove
+        </button>
+      </div>
+      <div className="mt-3 grid grid-cols-2 sm:grid-cols-4 gap-4">
+        <Slider label="Music level" value={settings.levelDb} min={-30} max={0} step={1} unit="dB" disabled={!settings.enabled} onChange={(levelDb) => update({ levelDb })} />
+        <Slider label="Ducking under speech" value={settings.duckingDb} min={-24} max={0} step={1} unit="dB" disabled={!settings.enabled} onChange={(duckingDb) => update({ duckingDb })} />
+        <Slider label="Intro" value={settings.introSeconds} min={0} max={10} step={0.5} unit="s" disabled={!settings.enabled} onChange={(introSeconds) => update({ introSeconds })} />
+        <Slider label="Outro" value={settings.outroSeconds} min={0} max={10} step={0.5} unit="s" disabled={!settings.enabled} onChange={(outroSeconds) => update({ outroSeconds })} />
+      </div>
+      {settings.enabled && settings.introSeconds + settings.outroSeconds > 0 && (
+        <p className="mt-2 text-xs text-gray-500">
+          Intro and outro add {settings.introSeconds + settings.outroSeconds} s to every exported voiceover, on top of any length fitted to the original. The video preview plays the voiceover without music.
+        </p>
+      )}
+      {error && <p className="mt-2 text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default MusicBedPanel;
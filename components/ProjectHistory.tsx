@@ -0,0 +1,115 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Project } from '../types';
+import { listProjects, renameProject, duplicateProject, deleteProject } from '../services/projectStore';
+import { SpinnerIcon } from './Icons';
+import Flag from './Flag';
+
+interface ProjectHistoryProps {
+  currentProjectId: string | null;
+  onOpen: (projectId: string) => void;
+  onDeleted: (projectId: string) => void;
+  onClose: () => void;
+}
+
+const ProjectHistory: React.FC<ProjectHistoryProps> = ({ currentProjectId, onOpen, onDeleted, onClose }) => {
+  const [projects, setProjects] = useState<Project[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error('Error loading projects:', err);
+      setError(err instanceof Error && err.message ? err.message : 'Could not load saved projects.');
+      setProjects([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleRename = async (id: string) => {
+    if (newName.trim()) {
+      await renameProject(id, newName.trim());
+      await refresh();
+    }
+    setRenamingId(null);
+  };
+
+  const handleDuplicate = async (id: string) => {
+    await duplicateProject(id);
+    await refresh();
+  };
+
+  const handleDelete = async (project: Project) => {
+    if (!confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    await deleteProject(project.id);
+    onDeleted(project.id);
+    await refresh();
+  };
+
+  const smallButtonClass = "px-2 py-1 text-xs rounded-md border border-gray-medium text-brand-primary hover:bg-gray-100 transition-colors";
+
+  return (
+    <div className="w-full">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-brand-primary">Project History</h3>
+        <button onClick={onClose} className="px-3 py-1 text-sm rounded-md border border-gray-medium text-brand-primary hover:bg-gray-100 transition-colors">
+          Close
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {projects === null ? (
+        <div className="flex justify-center p-8"><SpinnerIcon className="w-8 h-8 text-brand-primary" /></div>
+      ) : projects.length === 0 ? (
+        <p className="text-gray-500 text-center p-8">No saved projects yet. Projects are saved automatically as you work.</p>
+      ) : (
+        <ul className="divide-y divide-gray-medium border border-gray-medium rounded-md max-h-[28rem] overflow-y-auto">
+          {projects.map(project => (
+            <li key={project.id} className={`p-3 flex flex-col sm:flex-row sm:items-center gap-2 ${project.id === currentProjectId ? 'bg-gray-50' : ''}`}>
+              <div className="flex-grow min-w-0">
+                {renamingId === project.id ? (
+                  <input
+                    autoFocus
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    onBlur={() => handleRename(project.id)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(project.id);
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="w-full px-2 py-1 bg-white border border-gray-medium rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary text-gray-800"
+                  />
+                ) : (
+                  <p className="font-medium text-gray-800 truncate">
+                    {project.name}
+                    {project.id === currentProjectId && <span className="ml-2 text-xs text-brand-primary">(open)</span>}
+                  </p>
+                )}
+                <div className="flex items-center gap-2 text-xs text-gray-500 mt-1">
+                  {project.detectedLanguage && <Flag languageCode={project.detectedLanguage.code} />}
+                  <span>{new Date(project.updatedAt).toLocaleString()}</span>
+                  <span>· {project.translations.length} translation{project.translations.length === 1 ? '' : 's'}</span>
+                  <span>· {project.translations.filter(t => t.audioBlob).length} voiceover{project.translations.filter(t => t.audioBlob).length === 1 ? '' : 's'}</span>
+                </div>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <button onClick={() => onOpen(project.id)} className={smallButtonClass}>Open</button>
+                <button onClick={() => { setRenamingId(project.id); setNewName(project.name); }} className={smallButtonClass}>Rename</button>
+                <button onClick={() => handleDuplicate(project.id)} className={smallButtonClass}>Duplicate</button>
+                <button onClick={() => handleDelete(project)} className="px-2 py-1 text-xs rounded-md border border-red-500 text-red-600 hover:bg-red-50 transition-colors">Delete</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ProjectHistory;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import type { PronunciationEntry } from '../types';
+import { LANGUAGES } from '../constants';
+import { ChevronDownIcon } from './Icons';
+
+interface PronunciationLexiconManagerProps {
+  lexicon: PronunciationEntry[];
+  onChange: (lexicon: PronunciationEntry[]) => void;
+  // Languages offered first in the picker, usually the current translation targets.
+  preferredLanguages: string[];
+}
+
+const inputClass = "px-2 py-1 bg-white border border-gray-medium rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary text-gray-800 text-sm";
+const smallButtonClass = "px-3 py-1 text-sm rounded-md border border-gray-medium text-brand-primary hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const PronunciationLexiconManager: React.FC<PronunciationLexiconManagerProps> = ({ lexicon, onChange, preferredLanguages }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [languageCode, setLanguageCode] = useState(preferredLanguages[0] || LANGUAGES[0].code);
+  const [term, setTerm] = useState('');
+  const [spoken, setSpoken] = useState('');
+
+  const orderedLanguages = [
+    ...LANGUAGES.filter(l => preferredLanguages.includes(l.code)),
+    ...LANGUAGES.filter(l => !preferredLanguages.includes(l.code)),
+  ];
+  const languageName = (code: string) => LANGUAGES.find(l => l.code === code)?.name || code;
+
+  const handleAdd = () => {
+    if (!term.trim() || !spoken.trim()) return;
+    const others = lexicon.filter(e => !(e.languageCode === languageCode && e.term.toLowerCase() === term.trim().toLowerCase()));
+    onChange([...others, { languageCode, term: term.trim(), spoken: spoken.trim() }]);
+    setTerm('');
+    setSpoken('');
+  };
+
+  return (
+    <div className="w-full border border-gray-medium rounded-md">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-2 text-left text-sm text-gray-800"
+      >
+        <span>
+          <span className="font-semibold text-brand-primary">Pronunciation</span>
+          <span className="ml-2 text-gray-500">{lexicon.length} entr{lexicon.length === 1 ? 'y' : 'ies'}</span>
+        </span>
+        <ChevronDownIcon className={`w-5 h-5 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4">
+          <div>
+            <p className="text-sm text-gray-600 mb-2">Terms are replaced by their spoken form before the voiceover is synthesized; the text itself is not changed.</p>
+            {lexicon.length > 0 && (
+              <ul className="mb-2 space-y-1 text-sm">
+                {lexicon.map((entry, index) => (
+                  <li key={`${entry.languageCode}-${entry.term}`} className="flex items-center gap-2 text-gray-800">
+                    <span className="w-24 text-gray-500">{languageName(entry.languageCode)}</span>
+                    <span>{entry.term}</span>
+                    <span className="text-gray-400">→</span>
+                    <span className="font-medium">"{entry.spoken}"</span>
+                    <button
+                      onClick={() => onChange(lexicon.filter((_, i) => i !== index))}
+                      className="ml-auto text-red-600 hover:underline text-xs"
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex flex-wrap items-center gap-2">
+              <select value={languageCode} onChange={(e) => setLanguageCode(e.target.value)} className={inputClass} aria-label="Language">
+                {orderedLanguages.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+              </select>
+              <input value={term} onChange={(e) => setTerm(e.target.value)} placeholder="Term, e.g. SQL" className={inputClass} />
+              <input
+                value={spoken}
+                onChange={(e) => setSpoken(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                placeholder="Say it as, e.g. sequel"
+                className={inputClass}
+              />
+              <button onClick={handleAdd} disabled={!term.trim() || !spoken.trim()} className={smallButtonClass}>Add</button>
+            </div>
+          </div>
+
+          <div className="text-sm text-gray-600">
+            <p className="font-medium mb-1">Speech markup in translations</p>
+            <ul className="list-disc list-inside space-y-0.5">
+              <li><code>[pause]</code> or <code>[pause 1.5s]</code>, <code>[pause 300ms]</code> inserts silence</li>
+              <li><code>[emph: word]</code> stresses a word</li>
+              <li><code>[spell: ABC]</code> reads letter by letter</li>
+            </ul>
+            <p className="mt-1">Markup is only heard, never shown in the displayed text, subtitles or shared text.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PronunciationLexiconManager;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import type { QaReport, QaSeverity } from '../types';
+import { ChevronDownIcon, SpinnerIcon } from './Icons';
+
+export const SEVERITY_STYLES: Record<QaSeverity, { label: string; className: string }> = {
+  ok: { label: 'QA passed', className: 'bg-green-100 text-green-800 border-green-300' },
+  info: { label: 'QA notes', className: 'bg-blue-100 text-blue-800 border-blue-300' },
+  warning: { label: 'QA warnings', className: 'bg-yellow-100 text-yellow-800 border-yellow-300' },
+  error: { label: 'QA errors', className: 'bg-red-100 text-red-800 border-red-300' },
+};
+
+interface QaReportPanelProps {
+  report?: QaReport;
+  isChecking?: boolean;
+  onRun: () => void;
+}
+
+const QaReportPanel: React.FC<QaReportPanelProps> = ({ report, isChecking, onRun }) => {
+  const [showBackTranslation, setShowBackTranslation] = useState(false);
+  const rerunClass = "px-3 py-1 text-sm rounded-md border border-gray-medium text-brand-primary hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  if (!report) {
+    return (
+      <div className="mt-2 flex items-center gap-2 text-sm text-gray-600">
+        <button onClick={onRun} disabled={isChecking} className={`${rerunClass} flex items-center`}>
+          {isChecking ? <><SpinnerIcon className="w-4 h-4 mr-1" />Checking...</> : 'Run QA check'}
+        </button>
+        <span>Back-translates the text and checks numbers, links and names.</span>
+      </div>
+    );
+  }
+
+  const style = SEVERITY_STYLES[report.severity];
+  return (
+    <div className="mt-2 p-3 border border-gray-medium rounded-md bg-gray-50 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={`px-2 py-0.5 text-xs rounded-full border ${style.className}`}>{style.label}</span>
+        <span className="text-gray-600">
+          Length {Math.round(report.lengthRatio * 100)}% of source
+          {report.backLengthRatio !== undefined && <>, back-translation {Math.round(report.backLengthRatio * 100)}%</>}
+        </span>
+        <button onClick={onRun} disabled={isChecking} className={`${rerunClass} ml-auto flex items-center`}>
+          {isChecking ? <><SpinnerIcon className="w-4 h-4 mr-1" />Checking...</> : 'Check again'}
+        </button>
+      </div>
+      {report.issues.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {report.issues.map((issue, i) => (
+            <li key={i} className="flex items-start gap-2 text-gray-800">
+              <span className={`px-1.5 text-xs rounded-full border flex-shrink-0 ${SEVERITY_STYLES[issue.severity].className}`}>{issue.severity}</span>
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {report.backTranslationError && (
+        <p className="mt-2 text-red-600">Back-translation failed: {report.backTranslationError}</p>
+      )}
+      {report.backTranslation && (
+        <div className="mt-2">
+          <button onClick={() => setShowBackTranslation(!showBackTranslation)} className="flex items-center text-brand-primary hover:underline">
+            Back-translation
+            <ChevronDownIcon className={`w-4 h-4 ml-1 transition-transform ${showBackTranslation ? 'rotate-180' : ''}`} />
+          </button>
+          {showBackTranslation && <p className="mt-1 text-gray-700 whitespace-pre-wrap">{report.backTranslation}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QaReportPanel;
@@ -0,0 +1,302 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { PauseIcon, PlayIcon, StopIcon } from './Icons';
+import TakeReview from './TakeReview';
+import { RECORDING_TIME_LIMITS } from '../constants';
+import { getRecordingMimeType } from '../utils/audioUtils';
+import { getRecordingTimeLimit, saveRecordingTimeLimit } from '../utils/recordingPreferences';
+import { formatClock } from '../utils/subtitleUtils';
+
+interface RecordingStudioProps {
+  onSubmit: (audioBlob: Blob) => void;
+}
+
+type Phase = 'idle' | 'recording' | 'paused' | 'review';
+
+const WAVEFORM_WIDTH = 448;
+const WAVEFORM_HEIGHT = 64;
+const WAVEFORM_BAR_WIDTH = 2;
+const CLIP_LEVEL = 0.99;
+// A take whose loudest moment stays below this after SILENCE_WARNING_SECONDS is probably a muted mic.
+const SILENCE_LEVEL = 0.01;
+const SILENCE_WARNING_SECONDS = 3;
+const METER_FLOOR_DB = -60;
+// Levels, elapsed time and the time limit run on a timer, which keeps going in background
+// tabs where animation frames stop; frames only draw.
+const SAMPLE_INTERVAL_MS = 50;
+
+const levelToPercent = (peak: number) => {
+  const db = 20 * Math.log10(Math.max(peak, 1e-6));
+  return Math.max(0, Math.min(100, (1 - db / METER_FLOOR_DB) * 100));
+};
+
+// Microphone recorder with a live level meter, scrolling waveform, elapsed timer,
+// pause/resume and a time limit. Finished takes go through a review step first.
+const RecordingStudio: React.FC<RecordingStudioProps> = ({ onSubmit }) => {
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const [timeLimit, setTimeLimit] = useState(getRecordingTimeLimit);
+  const [isClipping, setIsClipping] = useState(false);
+  const [isSilent, setIsSilent] = useState(false);
+  const [take, setTake] = useState<Blob | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const contextRef = useRef<AudioContext | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const sampleTimerRef = useRef<number | null>(null);
+  const levelRef = useRef(0);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const meterRef = useRef<HTMLDivElement | null>(null);
+  const peaksRef = useRef<number[]>([]);
+  const maxPeakRef = useRef(0);
+  // Recorded time is accumulated across pauses: finished stretches plus the running one.
+  const recordedBeforeRef = useRef(0);
+  const resumedAtRef = useRef(0);
+  const isPausedRef = useRef(false);
+
+  const releaseInput = () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    if (sampleTimerRef.current !== null) window.clearInterval(sampleTimerRef.current);
+    sampleTimerRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    contextRef.current?.close().catch(() => {});
+    contextRef.current = null;
+  };
+
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+    }
+    releaseInput();
+  }, []);
+
+  const currentElapsed = () => recordedBeforeRef.current
+    + (isPausedRef.current ? 0 : (performance.now() - resumedAtRef.current) / 1000);
+
+  const drawWaveform = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.fillStyle = '#800020';
+    const peaks = peaksRef.current;
+    const offset = canvas.width - peaks.length * WAVEFORM_BAR_WIDTH;
+    peaks.forEach((peak, i) => {
+      const height = Math.max(1, peak * canvas.height);
+      context.fillRect(offset + i * WAVEFORM_BAR_WIDTH, (canvas.height - height) / 2, WAVEFORM_BAR_WIDTH - 0.5, height);
+    });
+  };
+
+  const stopRecording = () => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+  };
+
+  const startMonitoring = (analyser: AnalyserNode) => {
+    const buffer = new Float32Array(analyser.fftSize);
+    const sample = () => {
+      analyser.getFloatTimeDomainData(buffer);
+      let peak = 0;
+      for (let i = 0; i < buffer.length; i++) peak = Math.max(peak, Math.abs(buffer[i]));
+      levelRef.current = peak;
+      if (isPausedRef.current) return;
+
+      peaksRef.current.push(Math.min(1, peak));
+      const maxBars = WAVEFORM_WIDTH / WAVEFORM_BAR_WIDTH;
+      if (peaksRef.current.length > maxBars) peaksRef.current.splice(0, peaksRef.current.length - maxBars);
+
+      maxPeakRef.current = Math.max(maxPeakRef.current, peak);
+      if (peak >= CLIP_LEVEL) setIsClipping(true);
+      const seconds = currentElapsed();
+      setElapsed(seconds);
+      setIsSilent(seconds >= SILENCE_WARNING_SECONDS && maxPeakRef.current < SILENCE_LEVEL);
+      if (seconds >= timeLimit) stopRecording();
+    };
+    const draw = () => {
+      if (meterRef.current) meterRef.current.style.width = `${levelToPercent(levelRef.current)}%`;
+      drawWaveform();
+      frameRef.current = requestAnimationFrame(draw);
+    };
+    levelRef.current = 0;
+    sampleTimerRef.current = window.setInterval(sample, SAMPLE_INTERVAL_MS);
+    frameRef.current = requestAnimationFrame(draw);
+  };
+
+  const startRecording = async () => {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      console.error("Error accessing microphone:", err);
+      alert("Could not access microphone. Please ensure permissions are granted and you are using HTTPS.");
+      return;
+    }
+    streamRef.current = stream;
+
+    const mimeType = getRecordingMimeType();
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    recorderRef.current = recorder;
+    const chunks: Blob[] = [];
+    recorder.addEventListener('dataavailable', event => {
+      if (event.data.size > 0) chunks.push(event.data);
+    });
+    recorder.onstop = () => {
+      releaseInput();
+      // iOS Safari may record audio/mp4 even when something else was requested.
+      const audioBlob = new Blob(chunks, { type: recorder.mimeType || mimeType || 'audio/mp4' });
+      if (audioBlob.size === 0) {
+        alert("Recording failed: Empty audio file. Please try again.");
+        setPhase('idle');
+      } else {
+        setTake(audioBlob);
+        setPhase('review');
+      }
+    };
+
+    const context = new AudioContext();
+    contextRef.current = context;
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    context.createMediaStreamSource(stream).connect(analyser);
+
+    peaksRef.current = [];
+    maxPeakRef.current = 0;
+    recordedBeforeRef.current = 0;
+    resumedAtRef.current = performance.now();
+    isPausedRef.current = false;
+    setElapsed(0);
+    setIsClipping(false);
+    setIsSilent(false);
+
+    recorder.start();
+    setPhase('recording');
+    startMonitoring(analyser);
+  };
+
+  const pauseRecording = () => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state !== 'recording') return;
+    recorder.pause();
+    recordedBeforeRef.current = currentElapsed();
+    isPausedRef.current = true;
+    setPhase('paused');
+  };
+
+  const resumeRecording = () => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state !== 'paused') return;
+    recorder.resume();
+    resumedAtRef.current = performance.now();
+    isPausedRef.current = false;
+    setPhase('recording');
+  };
+
+  const handleTimeLimitChange = (seconds: number) => {
+    setTimeLimit(seconds);
+    saveRecordingTimeLimit(seconds);
+  };
+
+  const handleDiscard = () => {
+    setTake(null);
+    setPhase('idle');
+  };
+
+  if (phase === 'review' && take) {
+    return <TakeReview take={take} onUse={onSubmit} onDiscard={handleDiscard} />;
+  }
+
+  if (phase === 'idle') {
+    return (
+      <div className="w-full flex flex-col items-center space-y-3">
+        <button
+          onClick={startRecording}
+          className="flex items-center justify-center px-6 py-3 space-x-3 font-bold text-white transition-colors rounded-md bg-brand-primary hover:bg-brand-secondary shadow-sm hover:shadow-md"
+        >
+          <span>Start Recording 🎙️</span>
+        </button>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <span>Stop automatically after</span>
+          <select
+            value={timeLimit}
+            onChange={(e) => handleTimeLimitChange(Number(e.target.value))}
+            className="px-2 py-1 bg-white border border-gray-medium rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary text-gray-800 text-sm"
+          >
+            {RECORDING_TIME_LIMITS.map(seconds => (
+              <option key={seconds} value={seconds}>{seconds / 60} min</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    );
+  }
+
+  const remaining = timeLimit - elapsed;
+
+  return (
+    <div className="w-full p-4 bg-white border border-gray-medium rounded-md space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className={`flex items-center gap-2 font-semibold ${phase === 'recording' ? 'text-red-600' : 'text-gray-500'}`}>
+          <span className={`w-2.5 h-2.5 rounded-full ${phase === 'recording' ? 'bg-red-600 animate-pulse' : 'bg-gray-400'}`} />
+          {phase === 'recording' ? 'Recording' : 'Paused'}
+        </span>
+        <span className="font-mono text-gray-800">
+          {formatClock(elapsed)} <span className="text-gray-400">/ {formatClock(timeLimit)}</span>
+        </span>
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        width={WAVEFORM_WIDTH}
+        height={WAVEFORM_HEIGHT}
+        className="w-full h-16 bg-gray-50 border border-gray-medium rounded-md"
+      />
+
+      <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden" title="Input level">
+        <div
+          ref={meterRef}
+          className={`h-full transition-[width] duration-75 ${isClipping ? 'bg-red-600' : 'bg-green-500'}`}
+          style={{ width: '0%' }}
+        />
+      </div>
+
+      {isClipping && <p className="text-xs text-red-600">The input clipped. Move away from the microphone or lower its gain.</p>}
+      {isSilent && <p className="text-xs text-yellow-700">No input detected. Check that the right microphone is selected and not muted.</p>}
+      {remaining <= 30 && <p className="text-xs text-gray-500">Recording stops in {Math.ceil(remaining)} s.</p>}
+
+      <div className="flex justify-center gap-3">
+        {phase === 'recording' ? (
+          <button
+            onClick={pauseRecording}
+            className="flex items-center px-4 py-2 rounded-md border border-brand-primary text-brand-primary hover:bg-gray-100 transition-colors"
+          >
+            <PauseIcon className="w-5 h-5 mr-2" />
+            Pause
+          </button>
+        ) : (
+          <button
+            onClick={resumeRecording}
+            className="flex items-center px-4 py-2 rounded-md border border-brand-primary text-brand-primary hover:bg-gray-100 transition-colors"
+          >
+            <PlayIcon className="w-5 h-5 mr-2" />
+            Resume
+          </button>
+        )}
+        <button
+          onClick={stopRecording}
+          className="flex items-center px-4 py-2 font-bold text-white transition-colors rounded-md bg-brand-primary hover:bg-brand-secondary shadow-sm"
+        >
+          <StopIcon className="w-5 h-5 mr-2" />
+          Stop
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RecordingStudio;
@@ -0,0 +1,92 @@
+import React, { useId } from 'react';
+import type { TranscriptSegment } from '../types';
+import { DEFAULT_SPEAKER, getSpeakers } from '../utils/speakerUtils';
+import { formatClock } from '../utils/subtitleUtils';
+
+interface SegmentEditorProps {
+  segments: TranscriptSegment[];
+  isEditing: boolean;
+  onChange: (segments: TranscriptSegment[]) => void;
+  // Translations reuse the source's speaker labels, so only the text is editable there.
+  canEditSpeakers?: boolean;
+}
+
+const SegmentEditor: React.FC<SegmentEditorProps> = ({ segments, isEditing, onChange, canEditSpeakers = true }) => {
+  const speakers = getSpeakers(segments);
+  // Both the transcript and the translations render an editor, so the list id must be unique.
+  const speakerListId = useId();
+
+  const updateSegment = (index: number, patch: Partial<TranscriptSegment>) => {
+    onChange(segments.map((segment, i) => i === index ? { ...segment, ...patch } : segment));
+  };
+
+  const renameSpeaker = (from: string, to: string) => {
+    onChange(segments.map(segment => (segment.speaker || DEFAULT_SPEAKER) === from ? { ...segment, speaker: to } : segment));
+  };
+
+  const inputClass = "px-2 py-1 bg-white border border-gray-medium rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary text-gray-800";
+
+  return (
+    <div className={`w-full max-h-72 overflow-y-auto p-3 bg-white border border-gray-medium rounded-md transition-all ${isEditing ? 'ring-2 ring-brand-primary' : ''}`}>
+      {isEditing && canEditSpeakers && speakers.length > 0 && (
+        <div className="mb-3 pb-3 border-b border-gray-medium flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-600">Rename speakers:</span>
+          {speakers.map(speaker => (
+            <input
+              key={speaker}
+              defaultValue={speaker}
+              onBlur={(e) => {
+                const next = e.target.value.trim();
+                if (next && next !== speaker) renameSpeaker(speaker, next);
+              }}
+              className={`${inputClass} w-32`}
+              aria-label={`Rename ${speaker}`}
+            />
+          ))}
+        </div>
+      )}
+      <datalist id={speakerListId}>
+        {speakers.map(speaker => <option key={speaker} value={speaker} />)}
+      </datalist>
+      <ul className="space-y-2">
+        {segments.map((segment, index) => (
+          <li key={index} className="flex items-start gap-2 text-gray-800">
+            <span className="w-12 flex-shrink-0 pt-1 text-xs text-gray-400 tabular-nums">{formatClock(segment.start)}</span>
+            {isEditing ? (
+              <>
+                {canEditSpeakers ? (
+                  <input
+                    list={speakerListId}
+                    value={segment.speaker || ''}
+                    onChange={(e) => updateSegment(index, { speaker: e.target.value || undefined })}
+                    placeholder={speakers.length > 0 ? DEFAULT_SPEAKER : 'Speaker'}
+                    className={`${inputClass} w-28 flex-shrink-0 text-sm`}
+                    aria-label="Speaker"
+                  />
+                ) : (
+                  segment.speaker && (
+                    <span className="w-28 flex-shrink-0 pt-1 text-sm font-semibold text-brand-primary truncate">{segment.speaker}</span>
+                  )
+                )}
+                <textarea
+                  value={segment.text}
+                  onChange={(e) => updateSegment(index, { text: e.target.value })}
+                  rows={1}
+                  className={`${inputClass} flex-grow resize-y`}
+                  aria-label="Segment text"
+                />
+              </>
+            ) : (
+              <p>
+                {segment.speaker && <span className="font-semibold text-brand-primary mr-1">{segment.speaker}:</span>}
+                {segment.text}
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SegmentEditor;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { VOICES } from '../constants';
+import { findSharedVoices } from '../utils/speakerUtils';
+
+interface SpeakerVoicesProps {
+  speakerVoices: Record<string, string>;
+  onChange: (speaker: string, voiceName: string) => void;
+  disabled?: boolean;
+}
+
+const SpeakerVoices: React.FC<SpeakerVoicesProps> = ({ speakerVoices, onChange, disabled }) => {
+  const shared = findSharedVoices(speakerVoices);
+  return (
+    <div>
+      <p className="block text-sm font-medium text-gray-600 mb-1">Speaker voices</p>
+      <div className="flex flex-wrap gap-3">
+        {Object.entries(speakerVoices).map(([speaker, voiceName]) => (
+          <label key={speaker} className="flex items-center gap-2 text-sm text-gray-800">
+            <span className="font-semibold text-brand-primary">{speaker}</span>
+            <select
+              value={voiceName}
+              disabled={disabled}
+              onChange={(e) => onChange(speaker, e.target.value)}
+              className="px-2 py-1 bg-white border border-gray-medium rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary"
+            >
+              {VOICES.map(v => (
+                <option key={v.name} value={v.name}>{v.name} — {v.description} ({v.gender})</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+      {shared.map(({ voiceName, speakers }) => (
+        <p key={voiceName} className="mt-1 text-xs text-yellow-700">
+          {speakers.slice(0, -1).join(', ')} and {speakers[speakers.length - 1]} share {voiceName}, so they will sound alike. Pick another voice for one of them to tell them apart.
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default SpeakerVoices;
@@ -0,0 +1,180 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { PauseIcon, PlayIcon, SpinnerIcon } from './Icons';
+import { computePeaks, decodeToMono, encodeWav, floatToPcm16, PCM_SAMPLE_RATE } from '../utils/audioUtils';
+import { formatClock } from '../utils/subtitleUtils';
+
+interface TakeReviewProps {
+  take: Blob;
+  onUse: (audioBlob: Blob) => void;
+  onDiscard: () => void;
+}
+
+const OVERVIEW_BARS = 120;
+const TRIM_STEP_SECONDS = 0.1;
+
+// Plays back a finished recording and lets the user trim its start and end before submitting it.
+const TakeReview: React.FC<TakeReviewProps> = ({ take, onUse, onDiscard }) => {
+  const [url, setUrl] = useState('');
+  const [samples, setSamples] = useState<Float32Array | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [peaks, setPeaks] = useState<number[]>([]);
+  const [trimStart, setTrimStart] = useState(0);
+  const [trimEnd, setTrimEnd] = useState(0);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(take);
+    setUrl(objectUrl);
+    let cancelled = false;
+    decodeToMono(take, PCM_SAMPLE_RATE)
+      .then(decoded => {
+        if (cancelled) return;
+        setSamples(decoded.samples);
+        setDuration(decoded.duration);
+        setPeaks(computePeaks(decoded.samples, OVERVIEW_BARS));
+        setTrimEnd(decoded.duration);
+      })
+      .catch(err => !cancelled && setError(err.message));
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(objectUrl);
+    };
+  }, [take]);
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    setPosition(audio.currentTime);
+    if (audio.currentTime >= trimEnd) {
+      audio.pause();
+      audio.currentTime = trimStart;
+    }
+  };
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (!audio.paused) {
+      audio.pause();
+      return;
+    }
+    if (audio.currentTime < trimStart || audio.currentTime >= trimEnd) {
+      audio.currentTime = trimStart;
+    }
+    audio.play().catch(err => console.error('Error playing take:', err));
+  };
+
+  const handleUse = () => {
+    audioRef.current?.pause();
+    const isTrimmed = trimStart > 0 || trimEnd < duration;
+    if (!samples || !isTrimmed) {
+      onUse(take);
+      return;
+    }
+    const slice = samples.subarray(Math.floor(trimStart * PCM_SAMPLE_RATE), Math.ceil(trimEnd * PCM_SAMPLE_RATE));
+    onUse(encodeWav(new Uint8Array(floatToPcm16(slice).buffer), PCM_SAMPLE_RATE));
+  };
+
+  const keptSeconds = trimEnd - trimStart;
+
+  return (
+    <div className="w-full p-4 bg-white border border-gray-medium rounded-md space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-semibold text-brand-primary">Review your recording</span>
+        <span className="font-mono text-gray-600">{formatClock(keptSeconds)} of {formatClock(duration)}</span>
+      </div>
+
+      <audio
+        ref={audioRef}
+        src={url}
+        onTimeUpdate={handleTimeUpdate}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        className="hidden"
+      />
+
+      {error ? (
+        <p className="text-sm text-red-600">{error} You can still use the recording untrimmed.</p>
+      ) : !samples ? (
+        <div className="flex items-center justify-center h-16 text-sm text-gray-500">
+          <SpinnerIcon className="w-4 h-4 mr-2" />
+          Preparing waveform...
+        </div>
+      ) : (
+        <>
+          <div className="relative flex items-center h-16 gap-px bg-gray-50 border border-gray-medium rounded-md px-1">
+            {peaks.map((peak, i) => {
+              const time = ((i + 0.5) / peaks.length) * duration;
+              const isKept = time >= trimStart && time <= trimEnd;
+              return (
+                <div
+                  key={i}
+                  className={`flex-1 rounded-sm ${isKept ? 'bg-brand-primary' : 'bg-gray-300'}`}
+                  style={{ height: `${Math.max(2, peak * 100)}%` }}
+                />
+              );
+            })}
+            {duration > 0 && (
+              <div className="absolute top-0 bottom-0 w-px bg-gray-800" style={{ left: `${(position / duration) * 100}%` }} />
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-4 text-xs text-gray-600">
+            <label className="flex flex-col gap-1">
+              <span>Start: {formatClock(trimStart)}</span>
+              <input
+                type="range"
+                min={0}
+                max={duration}
+                step={TRIM_STEP_SECONDS}
+                value={trimStart}
+                onChange={(e) => setTrimStart(Math.min(Number(e.target.value), trimEnd - TRIM_STEP_SECONDS))}
+                className="accent-brand-primary"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>End: {formatClock(trimEnd)}</span>
+              <input
+                type="range"
+                min={0}
+                max={duration}
+                step={TRIM_STEP_SECONDS}
+                value={trimEnd}
+                onChange={(e) => setTrimEnd(Math.max(Number(e.target.value), trimStart + TRIM_STEP_SECONDS))}
+                className="accent-brand-primary"
+              />
+            </label>
+          </div>
+        </>
+      )}
+
+      <div className="flex flex-wrap justify-center gap-3">
+        <button
+          onClick={togglePlayback}
+          disabled={!url}
+          className="flex items-center px-4 py-2 rounded-md border border-brand-primary text-brand-primary hover:bg-gray-100 transition-colors disabled:opacity-50"
+        >
+          {isPlaying ? <PauseIcon className="w-5 h-5 mr-2" /> : <PlayIcon className="w-5 h-5 mr-2" />}
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <button
+          onClick={onDiscard}
+          className="px-4 py-2 rounded-md border border-gray-medium text-gray-700 hover:bg-gray-100 transition-colors"
+        >
+          Record again
+        </button>
+        <button
+          onClick={handleUse}
+          disabled={!samples && !error}
+          className="px-4 py-2 font-bold text-white transition-colors rounded-md bg-brand-primary hover:bg-brand-secondary disabled:bg-gray-400 disabled:cursor-not-allowed shadow-sm"
+        >
+          Use this recording
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TakeReview;
@@ -0,0 +1,58 @@
+import React from 'react';
+import type { TranscriptionChunkStatus } from '../types';
+import { SpinnerIcon } from './Icons';
+import { formatClock } from '../utils/subtitleUtils';
+
+interface TranscriptionProgressProps {
+  chunks: TranscriptionChunkStatus[];
+  onRetry: (index: number) => void;
+  onCancel: () => void;
+}
+
+const TranscriptionProgress: React.FC<TranscriptionProgressProps> = ({ chunks, onRetry, onCancel }) => {
+  const done = chunks.filter(c => c.status === 'done').length;
+  const percent = chunks.length > 0 ? Math.round((done / chunks.length) * 100) : 0;
+
+  return (
+    <div className="w-full max-w-lg">
+      <div className="flex justify-between text-sm text-gray-600 mb-1">
+        <span>{done}/{chunks.length} parts transcribed</span>
+        <span>{percent}%</span>
+      </div>
+      <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div className="h-full bg-brand-primary transition-all" style={{ width: `${percent}%` }} />
+      </div>
+      <ul className="mt-4 max-h-64 overflow-y-auto divide-y divide-gray-medium border border-gray-medium rounded-md text-sm">
+        {chunks.map(chunk => (
+          <li key={chunk.index} className="flex items-center gap-3 px-3 py-2">
+            <span className="w-16 text-gray-700">Part {chunk.index + 1}</span>
+            <span className="text-gray-500">{formatClock(chunk.start)}–{formatClock(chunk.end)}</span>
+            <span className="ml-auto flex items-center gap-2">
+              {chunk.status === 'pending' && <span className="text-gray-400">Waiting</span>}
+              {chunk.status === 'running' && <><SpinnerIcon className="w-4 h-4 text-brand-primary" /><span className="text-gray-600">Transcribing</span></>}
+              {chunk.status === 'done' && <span className="text-green-600">✓ Done</span>}
+              {chunk.status === 'failed' && (
+                <>
+                  <span className="text-red-600 truncate max-w-[12rem]" title={chunk.error}>Failed</span>
+                  <button
+                    onClick={() => onRetry(chunk.index)}
+                    className="px-2 py-0.5 rounded-md border border-red-500 text-red-600 hover:bg-red-50 transition-colors"
+                  >
+                    Retry
+                  </button>
+                </>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+      <div className="mt-3 text-center">
+        <button onClick={onCancel} className="text-sm text-brand-primary hover:underline">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptionProgress;
@@ -0,0 +1,27 @@
+import React, { useMemo } from 'react';
+import { diffWords } from '../utils/textDiff';
+
+interface TranslationDiffProps {
+  machineText: string;
+  text: string;
+}
+
+const TranslationDiff: React.FC<TranslationDiffProps> = ({ machineText, text }) => {
+  const parts = useMemo(() => diffWords(machineText, text), [machineText, text]);
+
+  return (
+    <div className="w-full max-h-48 overflow-y-auto p-3 bg-white border border-gray-medium rounded-md text-gray-800 whitespace-pre-wrap">
+      {parts.map((part, i) => {
+        if (part.type === 'added') {
+          return <ins key={i} className="bg-green-100 text-green-900 no-underline">{part.text}</ins>;
+        }
+        if (part.type === 'removed') {
+          return <del key={i} className="bg-red-100 text-red-800">{part.text}</del>;
+        }
+        return <span key={i}>{part.text}</span>;
+      })}
+    </div>
+  );
+};
+
+export default TranslationDiff;
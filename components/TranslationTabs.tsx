@@ -1,19 +1,66 @@
 import React, { useState, useRef, useEffect } from 'react';
-import type { Translation } from '../types';
-import { DownloadIcon, PlayIcon, SpinnerIcon, PauseIcon, ShareIcon } from './Icons';
+import type { MasteringSettings, MusicBed, Translation, TranscriptSegment, VoiceSettings } from '../types';
+import { DownloadIcon, PlayIcon, SpinnerIcon, PauseIcon, ShareIcon, DocumentTextIcon } from './Icons';
+import { formatSrt, formatVtt, formatClock, downloadTextFile, joinSegments } from '../utils/subtitleUtils';
+import VoiceSelector from './VoiceSelector';
+import SpeakerVoices from './SpeakerVoices';
+import ExportFormatSelector from './ExportFormatSelector';
+import MemoryMatches from './MemoryMatches';
+import SegmentEditor from './SegmentEditor';
+import TranslationDiff from './TranslationDiff';
+import QaReportPanel, { SEVERITY_STYLES } from './QaReportPanel';
+import VideoDubPreview from './VideoDubPreview';
+import MasteringEditor from './MasteringEditor';
+import { exportAudio, AUDIO_EXPORT_FORMATS, DEFAULT_EXPORT_SETTINGS } from '../utils/audioEncoding';
+import type { AudioExportSettings } from '../utils/audioEncoding';
+import { downloadBlob } from '../utils/fileUtils';
+import { mixWithMusicBed } from '../utils/audioUtils';
+import { stripSegmentMarkup, stripSpeechMarkup } from '../utils/speechMarkup';
+import { estimateSpeechSeconds, formatDurationDelta } from '../utils/speechTiming';
+import { DURATION_FIT_TOLERANCE, SPEAKING_RATES } from '../constants';
+import { describeError } from '../services/aiErrors';
 
 interface TranslationTabsProps {
   translations: Translation[];
+  originalSegments: TranscriptSegment[];
+  originalLanguage: { name: string; code: string } | null;
   activeTab: string | null;
   onTabClick: (languageCode: string) => void;
   onGenerateVoiceover: (languageCode: string) => void;
+  onCancelVoiceover: (languageCode: string) => void;
+  onVoiceChange: (languageCode: string, voice: VoiceSettings) => void;
+  onPreviewVoice: (languageCode: string, voice: VoiceSettings) => Promise<string>;
+  onSpeakerVoiceChange: (languageCode: string, speaker: string, voiceName: string) => void;
+  onSaveTranslation: (languageCode: string, text: string, segments?: TranscriptSegment[]) => void;
+  onRetranslate: (languageCode: string) => void;
+  retranslatingLanguage: string | null;
+  onRunQa: (languageCode: string) => void;
+  onApplyMastering: (languageCode: string, mastering: MasteringSettings) => Promise<void>;
+  onSpeakingRateChange: (languageCode: string, speakingRate: number) => Promise<void>;
+  fitTarget: number | null; // seconds every voiceover is fitted to, when fitting is on
+  musicBed: MusicBed | null;
+  sourceVideo: Blob | null;
 }
 
-const TranslationTabs: React.FC<TranslationTabsProps> = ({ translations, activeTab, onTabClick, onGenerateVoiceover }) => {
+const TranslationTabs: React.FC<TranslationTabsProps> = ({ translations, originalSegments, originalLanguage, activeTab, onTabClick, onGenerateVoiceover, onCancelVoiceover, onVoiceChange, onPreviewVoice, onSpeakerVoiceChange, onSaveTranslation, onRetranslate, retranslatingLanguage, onRunQa, onApplyMastering, onSpeakingRateChange, fitTarget, musicBed, sourceVideo }) => {
   const activeTranslation = translations.find(t => t.languageCode === activeTab);
   const [isPlaying, setIsPlaying] = useState(false);
   const [canShare, setCanShare] = useState(false);
+  const [exportSettings, setExportSettings] = useState<AudioExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftText, setDraftText] = useState('');
+  const [draftSegments, setDraftSegments] = useState<TranscriptSegment[]>([]);
+  const [showChanges, setShowChanges] = useState(false);
+  const [mixedUrl, setMixedUrl] = useState<string | null>(null);
+  const [rerenderingLanguage, setRerenderingLanguage] = useState<string | null>(null);
+  const [isMixing, setIsMixing] = useState(false);
+  const [mixError, setMixError] = useState<string | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const voiceUrl = activeTranslation?.audioUrl;
+  // With music enabled, playback and export use the mix. The video preview keeps the bare
+  // voiceover, which is timed to the video; the mix starts with the music intro.
+  const playbackUrl = mixedUrl || voiceUrl;
 
   useEffect(() => {
     if (typeof navigator.share === 'function') {
@@ -21,6 +68,45 @@ const TranslationTabs: React.FC<TranslationTabsProps> = ({ translations, activeT
     }
   }, []);
 
+  // Unsaved edits belong to the tab they were made in.
+  useEffect(() => {
+    setIsEditing(false);
+    setShowChanges(false);
+  }, [activeTab]);
+
+  // Remixes shortly after the voiceover or music settings change, so dragging a slider mixes once.
+  useEffect(() => {
+    setMixError(null);
+    if (!voiceUrl || !musicBed?.settings.enabled) {
+      setIsMixing(false);
+      return;
+    }
+    let cancelled = false;
+    let url: string | null = null;
+    setIsMixing(true);
+    const timer = setTimeout(() => {
+      mixWithMusicBed(voiceUrl, musicBed.blob, musicBed.settings)
+        .then(blob => {
+          if (cancelled) return;
+          url = URL.createObjectURL(blob);
+          setMixedUrl(url);
+        })
+        .catch(err => {
+          console.error('Error mixing music bed:', err);
+          if (!cancelled) setMixError(describeError(err));
+        })
+        .finally(() => {
+          if (!cancelled) setIsMixing(false);
+        });
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+      setMixedUrl(null);
+    };
+  }, [voiceUrl, musicBed]);
+
   useEffect(() => {
     // If there's an existing audio player, pause it and remove its event listeners to prevent memory leaks.
     if (audioRef.current) {
@@ -31,8 +117,8 @@ const TranslationTabs: React.FC<TranslationTabsProps> = ({ translations, activeT
     }
 
     // If the currently selected translation has an audio URL, create a new Audio object.
-    if (activeTranslation?.audioUrl) {
-        const audio = new Audio(activeTranslation.audioUrl);
+    if (playbackUrl) {
+        const audio = new Audio(playbackUrl);
         // Set up event listeners to sync React state with the audio element's actual state.
         audio.onplay = () => setIsPlaying(true);
         audio.onpause = () => setIsPlaying(false);
@@ -52,7 +138,7 @@ const TranslationTabs: React.FC<TranslationTabsProps> = ({ translations, activeT
             audioRef.current = null;
         }
     };
-  }, [activeTab, activeTranslation?.audioUrl]);
+  }, [activeTab, playbackUrl]);
 
   const handlePlayPause = () => {
       if (!audioRef.current) return;
@@ -69,26 +155,76 @@ const TranslationTabs: React.FC<TranslationTabsProps> = ({ translations, activeT
       }
   };
 
+  const handleStartEditing = () => {
+    if (!activeTranslation) return;
+    setDraftText(activeTranslation.text);
+    setDraftSegments(activeTranslation.segments || []);
+    setShowChanges(false);
+    setIsEditing(true);
+  };
+
+  const handleSaveEdit = () => {
+    if (!activeTranslation) return;
+    if (activeTranslation.segments && activeTranslation.segments.length > 0) {
+      onSaveTranslation(activeTranslation.languageCode, joinSegments(draftSegments), draftSegments);
+    } else {
+      onSaveTranslation(activeTranslation.languageCode, draftText);
+    }
+    setIsEditing(false);
+  };
+
+  const handleRetranslate = () => {
+    if (!activeTranslation) return;
+    if (activeTranslation.machineText !== undefined && !window.confirm(`Re-translating replaces your edits to the ${activeTranslation.language} translation. Continue?`)) {
+      return;
+    }
+    setIsEditing(false);
+    setShowChanges(false);
+    onRetranslate(activeTranslation.languageCode);
+  };
+
   const handleShareTranscript = async () => {
     if (!activeTranslation?.text) return;
 
     try {
       await navigator.share({
         title: `Translation in ${activeTranslation.language}`,
-        text: activeTranslation.text,
+        text: stripSpeechMarkup(activeTranslation.text),
       });
     } catch (error) {
       console.error('Error sharing transcript:', error);
     }
   };
 
+  // Encodes the voiceover in the selected export format, named with the matching extension.
+  const buildVoiceoverFile = async (translation: Translation, audioUrl: string): Promise<File> => {
+    const { extension, mimeType } = AUDIO_EXPORT_FORMATS[exportSettings.format];
+    const blob = await exportAudio(audioUrl, exportSettings);
+    const suffix = mixedUrl ? '_voiceover_with_music' : '_voiceover';
+    return new File([blob], `${translation.language}${suffix}.${extension}`, { type: mimeType });
+  };
+
+  const handleDownloadVoiceover = async () => {
+    if (!activeTranslation || !playbackUrl) return;
+
+    setIsExporting(true);
+    try {
+      const file = await buildVoiceoverFile(activeTranslation, playbackUrl);
+      downloadBlob(file, file.name);
+    } catch (error) {
+      console.error('Error exporting voiceover:', error);
+      alert(`Could not export the voiceover: ${(error as Error)?.message || 'unknown error'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleShareVoiceover = async () => {
-    if (!activeTranslation?.audioUrl) return;
+    if (!activeTranslation || !playbackUrl) return;
 
+    setIsExporting(true);
     try {
-      const response = await fetch(activeTranslation.audioUrl);
-      const blob = await response.blob();
-      const file = new File([blob], `${activeTranslation.language}_voiceover.wav`, { type: 'audio/wav' });
+      const file = await buildVoiceoverFile(activeTranslation, playbackUrl);
 
       if (navigator.canShare && navigator.canShare({ files: [file] })) {
         await navigator.share({
@@ -102,14 +238,64 @@ const TranslationTabs: React.FC<TranslationTabsProps> = ({ translations, activeT
     } catch (error) {
       console.error('Error fetching or sharing voiceover:', error);
       alert('Could not share the voiceover file.');
+    } finally {
+      setIsExporting(false);
     }
   };
 
+  const handleDownloadSubtitles = (segments: TranscriptSegment[], language: string, format: 'srt' | 'vtt') => {
+    if (format === 'srt') {
+      downloadTextFile(formatSrt(stripSegmentMarkup(segments)), `${language}_subtitles.srt`, 'application/x-subrip');
+    } else {
+      downloadTextFile(formatVtt(stripSegmentMarkup(segments)), `${language}_subtitles.vtt`, 'text/vtt');
+    }
+  };
+
+  const isRetranslating = !!activeTranslation && retranslatingLanguage === activeTranslation.languageCode;
+  const progress = activeTranslation?.audioProgress;
+  const generatingLabel = progress && progress.total > 1
+    ? `Generating chunk ${progress.current}/${progress.total}...`
+    : 'Generating...';
+
+  // Mastering and speed changes re-render the voiceover locally; one at a time per tab.
+  const isRerendering = !!activeTranslation && rerenderingLanguage === activeTranslation.languageCode;
+  const canRerender = !!activeTranslation && !activeTranslation.isGeneratingAudio && !isRerendering
+    && (!activeTranslation.audioUrl || !!activeTranslation.rawAudioUrl);
+  const rerender = async (languageCode: string, task: () => Promise<void>) => {
+    setRerenderingLanguage(languageCode);
+    try {
+      await task();
+    } finally {
+      setRerenderingLanguage(current => (current === languageCode ? null : current));
+    }
+  };
+
+  // Live length estimate for the text being shown or edited, at the chosen speaking rate.
+  const speakingRate = activeTranslation?.speakingRate ?? 1;
+  const estimateText = !activeTranslation ? ''
+    : !isEditing ? activeTranslation.text
+    : draftSegments.length > 0 && activeTranslation.segments?.length ? joinSegments(draftSegments) : draftText;
+  const estimatedSeconds = activeTranslation
+    ? estimateSpeechSeconds(stripSpeechMarkup(estimateText), activeTranslation.languageCode) / speakingRate
+    : 0;
+
   // Standard button classes for consistency across the app
   const buttonClass = "flex items-center justify-center px-4 py-2 bg-brand-primary text-white font-bold rounded-md hover:bg-brand-secondary transition-colors shadow-sm disabled:bg-gray-400 disabled:cursor-not-allowed";
+  const secondaryButtonClass = "flex items-center justify-center px-3 py-1 text-sm rounded-md border border-gray-medium text-brand-primary hover:bg-gray-100 transition-colors";
 
   return (
     <div className="w-full">
+      {originalSegments.length > 0 && (
+        <div className="mb-4 flex flex-wrap items-center gap-2 text-sm text-gray-600">
+          <span>Original subtitles{originalLanguage ? ` (${originalLanguage.name})` : ''}:</span>
+          <button onClick={() => handleDownloadSubtitles(originalSegments, originalLanguage?.name || 'Original', 'srt')} className={secondaryButtonClass}>
+            Download SRT
+          </button>
+          <button onClick={() => handleDownloadSubtitles(originalSegments, originalLanguage?.name || 'Original', 'vtt')} className={secondaryButtonClass}>
+            Download VTT
+          </button>
+        </div>
+      )}
       <div className="border-b border-gray-medium">
         <nav className="-mb-px flex space-x-4 overflow-x-auto" aria-label="Tabs">
           {translations.map(translation => (
@@ -120,9 +306,50 @@ const TranslationTabs: React.FC<TranslationTabsProps> = ({ translations, activeT
                 activeTab === translation.languageCode
                   ? 'border-brand-primary text-brand-primary'
                   : 'border-transparent text-gray-500 hover:text-brand-primary hover:border-gray-300'
-              } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors`}
+              } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors flex items-center`}
             >
               {translation.language}
+              {translation.glossaryIssues && translation.glossaryIssues.length > 0 && (
+                <span
+                  className="ml-2 px-1.5 text-xs rounded-full bg-yellow-100 text-yellow-800 border border-yellow-300"
+                  title={`${translation.glossaryIssues.length} glossary issue(s)`}
+                >
+                  {translation.glossaryIssues.length}
+                </span>
+              )}
+              {translation.memoryMatches?.some(m => m.kind === 'fuzzy') && (
+                <span
+                  className="ml-2 px-1.5 text-xs rounded-full bg-yellow-100 text-yellow-800 border border-yellow-300"
+                  title="Contains fuzzy translation memory matches to review"
+                >
+                  TM {translation.memoryMatches.filter(m => m.kind === 'fuzzy').length}
+                </span>
+              )}
+              {translation.qaReport && !translation.isCheckingQa && (
+                <span
+                  className={`ml-2 px-1.5 text-xs rounded-full border ${SEVERITY_STYLES[translation.qaReport.severity].className}`}
+                  title={SEVERITY_STYLES[translation.qaReport.severity].label}
+                >
+                  {translation.qaReport.severity === 'ok' ? 'QA' : `QA ${translation.qaReport.issues.length}`}
+                </span>
+              )}
+              {translation.isGeneratingAudio ? (
+                <span className="ml-2 flex items-center text-xs text-gray-500">
+                  <SpinnerIcon className="w-3 h-3 mr-1" />
+                  {translation.audioProgress && translation.audioProgress.total > 1 && `${translation.audioProgress.current}/${translation.audioProgress.total}`}
+                </span>
+              ) : translation.audioError ? (
+                <span className="ml-2 text-xs text-red-600" title={translation.audioError}>!</span>
+              ) : translation.audioUrl && translation.isAudioStale ? (
+                <span className="ml-2 text-xs text-orange-600" title="Voiceover out of date">↻</span>
+              ) : translation.audioUrl ? (
+                <span
+                  className="ml-2 text-xs text-green-600"
+                  title={translation.durationFit ? `Voiceover ready, ${formatDurationDelta(translation.durationFit.actual, translation.durationFit.target)} vs original` : 'Voiceover ready'}
+                >
+                  ✓
+                </span>
+              ) : null}
             </button>
           ))}
         </nav>
@@ -131,11 +358,137 @@ const TranslationTabs: React.FC<TranslationTabsProps> = ({ translations, activeT
       <div className="pt-6">
         {activeTranslation && (
           <div>
-            <textarea
-              readOnly
-              value={activeTranslation.text}
-              className="w-full h-48 p-3 bg-white border border-gray-medium rounded-md resize-none focus:ring-2 focus:ring-brand-primary focus:outline-none text-gray-800"
-            />
+            <div className="mb-2 flex flex-wrap items-center justify-end gap-2">
+              {activeTranslation.machineText !== undefined && !isEditing && (
+                <>
+                  <span className="mr-auto text-xs text-gray-500">Edited by hand</span>
+                  <button onClick={() => setShowChanges(!showChanges)} className={secondaryButtonClass}>
+                    {showChanges ? 'Hide changes' : 'Show changes'}
+                  </button>
+                </>
+              )}
+              {!isEditing ? (
+                <>
+                  <button
+                    onClick={handleRetranslate}
+                    disabled={isRetranslating || activeTranslation.isGeneratingAudio}
+                    className={`${secondaryButtonClass} disabled:opacity-50 disabled:cursor-not-allowed`}
+                    title="Translate this language again from the original transcript"
+                  >
+                    {isRetranslating ? <><SpinnerIcon className="w-4 h-4 mr-1" />Re-translating...</> : 'Re-translate'}
+                  </button>
+                  <button
+                    onClick={handleStartEditing}
+                    disabled={isRetranslating || activeTranslation.isGeneratingAudio}
+                    className={`${secondaryButtonClass} disabled:opacity-50 disabled:cursor-not-allowed`}
+                  >
+                    Edit
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button onClick={handleSaveEdit} className="px-3 py-1 text-sm rounded-md border border-green-500 text-green-600 hover:bg-green-50 transition-colors">
+                    Save
+                  </button>
+                  <button onClick={() => setIsEditing(false)} className="px-3 py-1 text-sm rounded-md border border-red-500 text-red-600 hover:bg-red-50 transition-colors">
+                    Cancel
+                  </button>
+                </>
+              )}
+            </div>
+            {showChanges && !isEditing && activeTranslation.machineText !== undefined ? (
+              <TranslationDiff machineText={activeTranslation.machineText} text={activeTranslation.text} />
+            ) : activeTranslation.segments && activeTranslation.segments.length > 0 && isEditing ? (
+              <SegmentEditor segments={draftSegments} isEditing onChange={setDraftSegments} canEditSpeakers={false} />
+            ) : (
+              <textarea
+                readOnly={!isEditing}
+                value={isEditing ? draftText : stripSpeechMarkup(activeTranslation.text)}
+                onChange={(e) => setDraftText(e.target.value)}
+                className={`w-full h-48 p-3 bg-white border border-gray-medium rounded-md resize-none focus:outline-none text-gray-800 ${isEditing ? 'ring-2 ring-brand-primary' : 'focus:ring-2 focus:ring-brand-primary'}`}
+              />
+            )}
+            {isEditing && (
+              <p className="mt-1 text-xs text-gray-500">
+                Speech markup: <code>[pause 1s]</code>, <code>[emph: word]</code>, <code>[spell: ABC]</code>. It is heard in the voiceover but not shown.
+              </p>
+            )}
+            {!isEditing && (
+              <QaReportPanel
+                report={activeTranslation.qaReport}
+                isChecking={activeTranslation.isCheckingQa}
+                onRun={() => onRunQa(activeTranslation.languageCode)}
+              />
+            )}
+            {activeTranslation.isAudioStale && activeTranslation.audioUrl && (
+              <div className="mt-2 p-3 bg-orange-50 border-l-4 border-orange-400 rounded-md text-sm text-orange-800 flex flex-wrap items-center justify-between gap-2">
+                <span>The text changed after this voiceover was generated, so the audio no longer matches it.</span>
+                <button
+                  onClick={() => onGenerateVoiceover(activeTranslation.languageCode)}
+                  disabled={activeTranslation.isGeneratingAudio}
+                  className="px-3 py-1 rounded-md border border-orange-400 text-orange-800 hover:bg-orange-100 transition-colors disabled:opacity-50"
+                >
+                  {activeTranslation.isGeneratingAudio ? generatingLabel : 'Regenerate voiceover'}
+                </button>
+              </div>
+            )}
+            {activeTranslation.memoryMatches && activeTranslation.memoryMatches.length > 0 && (
+              <MemoryMatches matches={activeTranslation.memoryMatches} />
+            )}
+            {activeTranslation.glossaryIssues && activeTranslation.glossaryIssues.length > 0 && (
+              <div className="mt-2 p-3 bg-yellow-50 border-l-4 border-yellow-400 rounded-md text-sm text-yellow-800">
+                <p className="font-semibold">Glossary not followed</p>
+                <ul className="list-disc list-inside">
+                  {activeTranslation.glossaryIssues.map(issue => (
+                    <li key={`${issue.kind}-${issue.term}`}>
+                      {issue.kind === 'doNotTranslate'
+                        ? <>"{issue.term}" should be kept untranslated.</>
+                        : <>"{issue.term}" should be translated as "{issue.expected}".</>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {activeTranslation.audioUrl && activeTranslation.durationFit && (
+              <p className="mt-2 text-sm text-gray-600">
+                Voiceover {activeTranslation.durationFit.actual.toFixed(1)} s, original {activeTranslation.durationFit.target.toFixed(1)} s:{' '}
+                <span className={Math.abs(activeTranslation.durationFit.actual / activeTranslation.durationFit.target - 1) > DURATION_FIT_TOLERANCE ? 'font-semibold text-orange-600' : 'font-semibold text-green-700'}>
+                  {formatDurationDelta(activeTranslation.durationFit.actual, activeTranslation.durationFit.target)}
+                </span>
+                {activeTranslation.durationFit.rewritten && ' · text adjusted to fit'}
+                {activeTranslation.durationFit.stretch !== 1 && ` · audio stretched ×${activeTranslation.durationFit.stretch.toFixed(2)}`}
+              </p>
+            )}
+            {activeTranslation.audioError && !activeTranslation.isGeneratingAudio && (
+              <p className="mt-2 text-sm text-red-600">Voiceover failed: {activeTranslation.audioError}</p>
+            )}
+            {activeTranslation.audioUrl && musicBed?.settings.enabled && (
+              mixError ? (
+                <p className="mt-2 text-sm text-red-600">Could not mix the background music: {mixError}</p>
+              ) : (
+                <p className="mt-2 flex items-center text-sm text-gray-600">
+                  {isMixing && <SpinnerIcon className="w-4 h-4 mr-2" />}
+                  {isMixing ? 'Mixing background music...' : `Playback and exports include the background music (${musicBed.name}).`}
+                </p>
+              )
+            )}
+            <div className="mt-4">
+              <VoiceSelector
+                voice={activeTranslation.voice}
+                disabled={activeTranslation.isGeneratingAudio}
+                onChange={(voice) => onVoiceChange(activeTranslation.languageCode, voice)}
+                onPreview={(voice) => onPreviewVoice(activeTranslation.languageCode, voice)}
+              />
+              {activeTranslation.speakerVoices && Object.keys(activeTranslation.speakerVoices).length > 1 && (
+                <div className="mt-3">
+                  <SpeakerVoices
+                    speakerVoices={activeTranslation.speakerVoices}
+                    disabled={activeTranslation.isGeneratingAudio}
+                    onChange={(speaker, voiceName) => onSpeakerVoiceChange(activeTranslation.languageCode, speaker, voiceName)}
+                  />
+                </div>
+              )}
+            </div>
             <div className="mt-4 flex flex-wrap items-center gap-3">
               
               {!activeTranslation.audioUrl ? (
@@ -145,7 +498,7 @@ const TranslationTabs: React.FC<TranslationTabsProps> = ({ translations, activeT
                     className={buttonClass}
                 >
                     {activeTranslation.isGeneratingAudio ? (
-                        <><SpinnerIcon className="w-5 h-5 mr-2"/><span>Generating...</span></>
+                        <><SpinnerIcon className="w-5 h-5 mr-2"/><span>{generatingLabel}</span></>
                     ) : (
                         <><PlayIcon className="w-5 h-5 mr-2"/><span>Generate Voiceover</span></>
                     )}
@@ -162,15 +515,74 @@ const TranslationTabs: React.FC<TranslationTabsProps> = ({ translations, activeT
                         <><PlayIcon className="w-5 h-5 mr-2" /><span>Play Voiceover</span></>
                       )}
                     </button>
-                    <a
-                      href={activeTranslation.audioUrl}
-                      download={`${activeTranslation.language}_voiceover.wav`}
+                    <ExportFormatSelector settings={exportSettings} onChange={setExportSettings} disabled={isExporting} />
+                    <button
+                      onClick={handleDownloadVoiceover}
+                      disabled={isExporting || isMixing}
                       className={buttonClass}
                       aria-label="Download voiceover"
                     >
-                      <DownloadIcon className="w-5 h-5 mr-2" />
+                      {isExporting || isMixing ? <SpinnerIcon className="w-5 h-5 mr-2" /> : <DownloadIcon className="w-5 h-5 mr-2" />}
                       <span>Download</span>
-                    </a>
+                    </button>
+                    <button
+                      onClick={() => onGenerateVoiceover(activeTranslation.languageCode)}
+                      disabled={activeTranslation.isGeneratingAudio}
+                      className={buttonClass}
+                      title="Generate again with the selected voice and direction"
+                    >
+                      {activeTranslation.isGeneratingAudio ? (
+                        <><SpinnerIcon className="w-5 h-5 mr-2"/><span>{generatingLabel}</span></>
+                      ) : (
+                        <span>Regenerate</span>
+                      )}
+                    </button>
+                </>
+              )}
+              {activeTranslation.isGeneratingAudio && (
+                <button
+                  onClick={() => onCancelVoiceover(activeTranslation.languageCode)}
+                  className="px-4 py-2 rounded-md border border-gray-medium text-gray-700 hover:bg-gray-100 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+
+              <label className="flex items-center gap-2 text-sm text-gray-700" title={fitTarget ? 'Fitting to the original duration sets the pace' : activeTranslation.audioUrl && !activeTranslation.rawAudioUrl ? 'Regenerate this voiceover to change its speed' : 'Changing the speed of an existing voiceover re-renders it without a new generation'}>
+                <span>Speed</span>
+                <select
+                  value={speakingRate}
+                  onChange={(e) => {
+                    const { languageCode } = activeTranslation;
+                    const rate = Number(e.target.value);
+                    rerender(languageCode, () => onSpeakingRateChange(languageCode, rate));
+                  }}
+                  disabled={!canRerender || !!fitTarget}
+                  className="px-2 py-1 bg-white border border-gray-medium rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary text-gray-800 text-sm disabled:opacity-50"
+                >
+                  {SPEAKING_RATES.map(rate => <option key={rate} value={rate}>{rate === 1 ? '1× (natural)' : `${rate}×`}</option>)}
+                </select>
+              </label>
+              <span className="text-sm text-gray-500">
+                {fitTarget ? `≈ ${formatClock(fitTarget)} (fitted to original)` : `≈ ${formatClock(estimatedSeconds)} estimated`}
+              </span>
+
+              {activeTranslation.segments && activeTranslation.segments.length > 0 && (
+                <>
+                    <button
+                        onClick={() => handleDownloadSubtitles(activeTranslation.segments!, activeTranslation.language, 'srt')}
+                        className={buttonClass}
+                    >
+                        <DocumentTextIcon className="w-5 h-5 mr-2" />
+                        <span>Download SRT</span>
+                    </button>
+                    <button
+                        onClick={() => handleDownloadSubtitles(activeTranslation.segments!, activeTranslation.language, 'vtt')}
+                        className={buttonClass}
+                    >
+                        <DocumentTextIcon className="w-5 h-5 mr-2" />
+                        <span>Download VTT</span>
+                    </button>
                 </>
               )}
 
@@ -187,6 +599,7 @@ const TranslationTabs: React.FC<TranslationTabsProps> = ({ translations, activeT
                     {activeTranslation.audioUrl && (
                         <button
                             onClick={handleShareVoiceover}
+                            disabled={isExporting || isMixing}
                             className={buttonClass}
                             title="Share Voiceover"
                         >
@@ -197,6 +610,25 @@ const TranslationTabs: React.FC<TranslationTabsProps> = ({ translations, activeT
                 </>
               )}
             </div>
+            {activeTranslation.audioUrl && (
+              <MasteringEditor
+                audioUrl={activeTranslation.audioUrl}
+                rawAudioUrl={activeTranslation.rawAudioUrl}
+                settings={activeTranslation.mastering}
+                report={activeTranslation.masteringReport}
+                disabled={!canRerender}
+                onApply={(mastering) => rerender(activeTranslation.languageCode, () => onApplyMastering(activeTranslation.languageCode, mastering))}
+              />
+            )}
+            {sourceVideo && (
+              <VideoDubPreview
+                video={sourceVideo}
+                audioUrl={voiceUrl}
+                segments={activeTranslation.segments && stripSegmentMarkup(activeTranslation.segments)}
+                language={activeTranslation.language}
+                languageCode={activeTranslation.languageCode}
+              />
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,113 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { TranscriptSegment } from '../types';
+import { formatVtt } from '../utils/subtitleUtils';
+
+interface VideoDubPreviewProps {
+  video: Blob;
+  audioUrl?: string;
+  segments?: TranscriptSegment[];
+  language: string;
+  languageCode: string;
+}
+
+// How far the voiceover may drift from the video before it is snapped back.
+const MAX_DRIFT_SECONDS = 0.25;
+
+// Plays the source video muted, with the selected language's voiceover following
+// the video's play, pause and seek events.
+const VideoDubPreview: React.FC<VideoDubPreviewProps> = ({ video, audioUrl, segments, language, languageCode }) => {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [subtitlesUrl, setSubtitlesUrl] = useState<string | null>(null);
+  const [showSubtitles, setShowSubtitles] = useState(true);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(video);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [video]);
+
+  useEffect(() => {
+    if (!segments || segments.length === 0) {
+      setSubtitlesUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([formatVtt(segments)], { type: 'text/vtt' }));
+    setSubtitlesUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [segments]);
+
+  // A new voiceover starts paused at the video's position.
+  useEffect(() => {
+    const player = videoRef.current;
+    if (player && !player.paused) player.pause();
+  }, [audioUrl]);
+
+  useEffect(() => {
+    const track = videoRef.current?.textTracks[0];
+    if (track) track.mode = showSubtitles ? 'showing' : 'hidden';
+  }, [showSubtitles, subtitlesUrl]);
+
+  const syncAudio = () => {
+    const player = videoRef.current;
+    const audio = audioRef.current;
+    if (!player || !audio || player.currentTime >= audio.duration) return;
+    if (Math.abs(audio.currentTime - player.currentTime) > MAX_DRIFT_SECONDS) {
+      audio.currentTime = player.currentTime;
+    }
+  };
+
+  const handlePlay = () => {
+    const audio = audioRef.current;
+    if (!audio || !videoRef.current) return;
+    audio.currentTime = videoRef.current.currentTime;
+    audio.play().catch(error => console.error('Error playing voiceover:', error));
+  };
+
+  const handlePause = () => {
+    audioRef.current?.pause();
+  };
+
+  if (!videoUrl) return null;
+
+  return (
+    <div className="mt-4">
+      <video
+        ref={videoRef}
+        src={videoUrl}
+        muted
+        controls
+        playsInline
+        onPlay={handlePlay}
+        onPause={handlePause}
+        onSeeked={syncAudio}
+        onTimeUpdate={syncAudio}
+        className="w-full max-h-80 bg-black rounded-md"
+      >
+        {subtitlesUrl && <track kind="subtitles" src={subtitlesUrl} srcLang={languageCode} label={language} default />}
+      </video>
+      {audioUrl && <audio ref={audioRef} src={audioUrl} preload="auto" />}
+      <div className="mt-2 flex flex-wrap items-center gap-4 text-sm text-gray-600">
+        <span>
+          {audioUrl
+            ? `Video muted, playing the ${language} voiceover.`
+            : `Generate the ${language} voiceover to hear the dub.`}
+        </span>
+        {subtitlesUrl && (
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={showSubtitles}
+              onChange={(e) => setShowSubtitles(e.target.checked)}
+              className="w-4 h-4 rounded text-brand-primary border-gray-300 focus:ring-brand-secondary"
+            />
+            <span>Show {language} subtitles</span>
+          </label>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VideoDubPreview;
@@ -0,0 +1,99 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { VoiceSettings } from '../types';
+import { VOICES, DEFAULT_VOICE, DEFAULT_SENTENCE_PAUSE_MS } from '../constants';
+import { PlayIcon, SpinnerIcon } from './Icons';
+
+interface VoiceSelectorProps {
+  voice: VoiceSettings | undefined;
+  onChange: (voice: VoiceSettings) => void;
+  onPreview: (voice: VoiceSettings) => Promise<string>;
+  disabled?: boolean;
+}
+
+const VoiceSelector: React.FC<VoiceSelectorProps> = ({ voice, onChange, onPreview, disabled }) => {
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const previewRef = useRef<HTMLAudioElement | null>(null);
+  const current: VoiceSettings = voice || { voiceName: DEFAULT_VOICE };
+  const selectedOption = VOICES.find(v => v.name === current.voiceName);
+
+  useEffect(() => {
+    // Stop any preview still playing when the selector goes away.
+    return () => previewRef.current?.pause();
+  }, []);
+
+  const handlePreview = async () => {
+    setIsLoadingPreview(true);
+    try {
+      const url = await onPreview(current);
+      previewRef.current?.pause();
+      previewRef.current = new Audio(url);
+      await previewRef.current.play();
+    } catch (error) {
+      console.error('Error previewing voice:', error);
+    } finally {
+      setIsLoadingPreview(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+      <div className="flex-shrink-0">
+        <label htmlFor="voice-select" className="block text-sm font-medium text-gray-600 mb-1">Voice</label>
+        <div className="flex items-center gap-2">
+          <select
+            id="voice-select"
+            value={current.voiceName}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...current, voiceName: e.target.value })}
+            className="px-3 py-2 bg-white border border-gray-medium rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary text-gray-800"
+          >
+            {(['female', 'male'] as const).map(gender => (
+              <optgroup key={gender} label={gender === 'female' ? 'Female' : 'Male'}>
+                {VOICES.filter(v => v.gender === gender).map(v => (
+                  <option key={v.name} value={v.name}>{v.name} — {v.description}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+          <button
+            onClick={handlePreview}
+            disabled={disabled || isLoadingPreview}
+            className="flex items-center px-3 py-2 text-sm rounded-md border border-gray-medium text-brand-primary hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title={selectedOption ? `Preview ${selectedOption.name} (${selectedOption.gender}, ${selectedOption.description.toLowerCase()})` : 'Preview voice'}
+          >
+            {isLoadingPreview ? <SpinnerIcon className="w-4 h-4 mr-1" /> : <PlayIcon className="w-4 h-4 mr-1" />}
+            <span>Preview</span>
+          </button>
+        </div>
+      </div>
+      <div className="flex-grow">
+        <label htmlFor="voice-style" className="block text-sm font-medium text-gray-600 mb-1">Delivery direction (optional)</label>
+        <input
+          id="voice-style"
+          type="text"
+          value={current.style || ''}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...current, style: e.target.value })}
+          placeholder='e.g. "calm, documentary narrator"'
+          className="w-full px-3 py-2 bg-white border border-gray-medium rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary text-gray-800"
+        />
+      </div>
+      <div className="flex-shrink-0">
+        <label htmlFor="voice-pause" className="block text-sm font-medium text-gray-600 mb-1" title="Silence added after every sentence. Each sentence is then generated on its own, which takes longer.">Pause between sentences</label>
+        <select
+          id="voice-pause"
+          value={current.pauseMs ?? DEFAULT_SENTENCE_PAUSE_MS}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...current, pauseMs: Number(e.target.value) })}
+          className="px-3 py-2 bg-white border border-gray-medium rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary text-gray-800"
+        >
+          {[0, 150, 300, 500, 800, 1200].map(ms => (
+            <option key={ms} value={ms}>{ms === 0 ? 'Natural' : `${ms} ms`}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default VoiceSelector;
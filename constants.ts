@@ -1,3 +1,5 @@
+import type { MasteringSettings, MusicBedSettings } from './types';
+
 export const LANGUAGES = [
     { code: "af", name: "Afrikaans" },
     { code: "ar", name: "Arabic" },
@@ -62,4 +64,124 @@ export const LANGUAGE_TO_FLAG_CODE: Record<string, string> = {
     sk: 'SK', sl: 'SI', so: 'SO', sq: 'AL', sv: 'SE', sw: 'TZ',
     ta: 'IN', te: 'IN', th: 'TH', tl: 'PH', tr: 'TR', uk: 'UA',
     ur: 'PK', vi: 'VN', zh: 'CN',
-};
\ No newline at end of file
+};
+export interface VoiceOption {
+    name: string;
+    gender: 'female' | 'male';
+    description: string;
+}
+
+// Prebuilt voices offered by the TTS model.
+export const VOICES: VoiceOption[] = [
+    { name: 'Achernar', gender: 'female', description: 'Soft' },
+    { name: 'Achird', gender: 'male', description: 'Friendly' },
+    { name: 'Algenib', gender: 'male', description: 'Gravelly' },
+    { name: 'Algieba', gender: 'male', description: 'Smooth' },
+    { name: 'Alnilam', gender: 'male', description: 'Firm' },
+    { name: 'Aoede', gender: 'female', description: 'Breezy' },
+    { name: 'Autonoe', gender: 'female', description: 'Bright' },
+    { name: 'Callirrhoe', gender: 'female', description: 'Easy-going' },
+    { name: 'Charon', gender: 'male', description: 'Informative' },
+    { name: 'Despina', gender: 'female', description: 'Smooth' },
+    { name: 'Enceladus', gender: 'male', description: 'Breathy' },
+    { name: 'Erinome', gender: 'female', description: 'Clear' },
+    { name: 'Fenrir', gender: 'male', description: 'Excitable' },
+    { name: 'Gacrux', gender: 'female', description: 'Mature' },
+    { name: 'Iapetus', gender: 'male', description: 'Clear' },
+    { name: 'Kore', gender: 'female', description: 'Firm' },
+    { name: 'Laomedeia', gender: 'female', description: 'Upbeat' },
+    { name: 'Leda', gender: 'female', description: 'Youthful' },
+    { name: 'Orus', gender: 'male', description: 'Firm' },
+    { name: 'Puck', gender: 'male', description: 'Upbeat' },
+    { name: 'Pulcherrima', gender: 'female', description: 'Forward' },
+    { name: 'Rasalgethi', gender: 'male', description: 'Informative' },
+    { name: 'Sadachbia', gender: 'male', description: 'Lively' },
+    { name: 'Sadaltager', gender: 'male', description: 'Knowledgeable' },
+    { name: 'Schedar', gender: 'male', description: 'Even' },
+    { name: 'Sulafat', gender: 'female', description: 'Warm' },
+    { name: 'Umbriel', gender: 'male', description: 'Easy-going' },
+    { name: 'Vindemiatrix', gender: 'female', description: 'Gentle' },
+    { name: 'Zephyr', gender: 'female', description: 'Bright' },
+    { name: 'Zubenelgenubi', gender: 'male', description: 'Casual' },
+];
+
+export const DEFAULT_VOICE = 'Puck';
+
+// Long scripts are synthesized in chunks of at most this many characters.
+export const MAX_TTS_CHUNK_CHARS = 1000;
+// Silence between sentences; 0 keeps the model's own phrasing, with sentences packed into chunks.
+export const DEFAULT_SENTENCE_PAUSE_MS = 0;
+// Silence between chunks when no sentence pause is set.
+export const CHUNK_JOIN_PAUSE_MS = 300;
+export const TTS_CHUNK_RETRIES = 2;
+
+// Rate-limited and transient AI requests are retried with exponential backoff:
+// RETRY_BASE_DELAY_MS, then twice that, and so on, capped at MAX_RETRY_DELAY_MS.
+export const AI_REQUEST_RETRIES = 3;
+export const RETRY_BASE_DELAY_MS = 500;
+export const MAX_RETRY_DELAY_MS = 20000;
+
+// Number of languages voiced in parallel by "Generate all voiceovers".
+export const DEFAULT_TTS_CONCURRENCY = 2;
+
+// Typical narration speed, used to estimate how long a voiceover will run.
+export const DEFAULT_WORDS_PER_MINUTE = 150;
+export const WORDS_PER_MINUTE: Record<string, number> = {
+    de: 130, fi: 120, hu: 125, ru: 135, pl: 135, ar: 130, hi: 140, ko: 140,
+    es: 165, it: 160, fr: 160, pt: 155, id: 145,
+};
+// Scripts written without spaces are estimated per character instead.
+export const CHARACTERS_PER_MINUTE: Record<string, number> = {
+    ja: 400, zh: 280, th: 450,
+};
+
+// "Fit to original duration": rewrite the text when the estimate is off by more than
+// TEXT_FIT_TOLERANCE, then stretch the audio if it is still off by more than
+// DURATION_FIT_TOLERANCE. Stretching beyond these factors audibly degrades speech.
+export const TEXT_FIT_TOLERANCE = 0.15;
+export const DURATION_FIT_TOLERANCE = 0.03;
+export const MIN_TIME_STRETCH = 0.75;
+export const MAX_TIME_STRETCH = 1.35;
+
+// Speaking rates offered per language, as speed multipliers. They are applied by
+// time-stretching the synthesized audio, so they stay within the stretch limits above.
+export const SPEAKING_RATES = [0.8, 0.9, 1, 1.1, 1.2, 1.3];
+
+// Long recordings are transcribed in chunks of about this length, cut at quiet points
+// and overlapping their neighbours so no word is lost at a cut.
+export const TRANSCRIPTION_CHUNK_SECONDS = 300;
+export const TRANSCRIPTION_OVERLAP_SECONDS = 3;
+export const TRANSCRIPTION_CONCURRENCY = 3;
+
+// Length of each chunk live interpreter mode transcribes and translates.
+export const LIVE_CHUNK_SECONDS = 6;
+
+// Longest single utterance in conversation mode; longer speech continues as a new turn.
+export const CONVERSATION_MAX_TURN_SECONDS = 60;
+
+// Choices for the recorder's time limit, in seconds; recording stops by itself at the limit.
+export const RECORDING_TIME_LIMITS = [60, 300, 900, 1800, 3600];
+export const DEFAULT_RECORDING_TIME_LIMIT = 900;
+
+// Loudness targets offered for voiceover mastering, in LUFS.
+export const LOUDNESS_TARGETS = [
+    { value: -16, label: '-16 LUFS (web, podcasts)' },
+    { value: -23, label: '-23 LUFS (broadcast, EBU R128)' },
+];
+export const DEFAULT_MASTERING: MasteringSettings = {
+    trimSilence: true,
+    loudnessTarget: -16,
+    fadeInMs: 10,
+    fadeOutMs: 100,
+    peakCeilingDb: -1,
+};
+// Normalization never boosts more than this, so near-silent takes do not turn into loud noise.
+export const MAX_NORMALIZATION_GAIN_DB = 20;
+
+export const DEFAULT_MUSIC_BED_SETTINGS: MusicBedSettings = {
+    enabled: true,
+    levelDb: -14,
+    duckingDb: -12,
+    introSeconds: 2,
+    outroSeconds: 3,
+};
@@ -0,0 +1,115 @@
+export type AIErrorKind =
+  | 'auth' // missing or rejected API key
+  | 'rateLimit' // too many requests or quota used up
+  | 'invalidInput' // the request itself was rejected, e.g. unsupported or oversized media
+  | 'safety' // blocked by the provider's safety filters
+  | 'noSpeech' // the audio was understood but holds nothing to transcribe
+  | 'network' // the service could not be reached
+  | 'unavailable' // the service answered with a server error or timed out
+  | 'malformedResponse' // the answer was empty or not the JSON that was asked for
+  | 'cancelled'
+  | 'unknown';
+
+// Worth trying again after a short wait.
+const RETRYABLE_KINDS: AIErrorKind[] = ['rateLimit', 'network', 'unavailable', 'malformedResponse'];
+
+// Every provider call fails with this error, so callers can react to the kind of
+// failure instead of guessing from the message.
+export class AIServiceError extends Error {
+  readonly kind: AIErrorKind;
+  readonly status?: number;
+  // Wait requested by the service before the next attempt.
+  readonly retryAfterMs?: number;
+
+  constructor(kind: AIErrorKind, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'AIServiceError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get isRetryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+// Thrown values are not always Errors, so their fields are read defensively.
+const nameOf = (error: unknown): string | undefined =>
+  typeof error === 'object' && error !== null && 'name' in error && typeof error.name === 'string' ? error.name : undefined;
+
+const messageOf = (error: unknown): string | undefined =>
+  typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string' ? error.message : undefined;
+
+export const isCancellation = (error: unknown): boolean =>
+  (error instanceof AIServiceError && error.kind === 'cancelled') || nameOf(error) === 'AbortError';
+
+export const isNoSpeech = (error: unknown): boolean =>
+  error instanceof AIServiceError && error.kind === 'noSpeech';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new AIServiceError('cancelled', 'The request was cancelled.');
+};
+
+// The SDK reports HTTP failures with a `status`; other clients only put it in the message.
+const statusOf = (error: unknown): number | undefined => {
+  if (typeof error === 'object' && error !== null && 'status' in error && typeof error.status === 'number') return error.status;
+  const match = (messageOf(error) || '').match(/\b(?:status:?|"code":)\s*(\d{3})\b/);
+  return match ? Number(match[1]) : undefined;
+};
+
+const retryAfterOf = (message: string): number | undefined => {
+  const match = message.match(/retry(?:Delay"?:\s*"| in )(\d+(?:\.\d+)?)s/i);
+  return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+};
+
+// Classifies any failure of a provider call. `fallbackMessage` is used when the error has none.
+export function toAIServiceError(error: unknown, fallbackMessage: string): AIServiceError {
+  if (error instanceof AIServiceError) return error;
+  const message = messageOf(error) || fallbackMessage;
+  const status = statusOf(error);
+
+  if (nameOf(error) === 'AbortError') return new AIServiceError('cancelled', 'The request was cancelled.');
+  if (/API[ _]?key/i.test(message) && (status === undefined || status === 400 || status === 401 || status === 403)) {
+    return new AIServiceError('auth', message, { status });
+  }
+  if (status === 401 || status === 403) return new AIServiceError('auth', message, { status });
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    return new AIServiceError('rateLimit', message, { status, retryAfterMs: retryAfterOf(message) });
+  }
+  if (status === 408 || (status !== undefined && status >= 500)) return new AIServiceError('unavailable', message, { status });
+  if (status !== undefined && status >= 400) return new AIServiceError('invalidInput', message, { status });
+  if (error instanceof SyntaxError) return new AIServiceError('malformedResponse', `The response could not be read: ${message}`);
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) return new AIServiceError('network', message);
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return new AIServiceError('network', message);
+  return new AIServiceError('unknown', message, { status });
+}
+
+// A short, actionable explanation of a failure for the UI.
+export function describeError(error: unknown): string {
+  if (!(error instanceof AIServiceError)) return messageOf(error) || 'Unknown error';
+  switch (error.kind) {
+    case 'auth':
+      return 'The AI service rejected the API key. Check that API_KEY is set correctly in your Vercel Project Settings.';
+    case 'rateLimit':
+      return 'The AI service is receiving too many requests or your quota is used up. Wait a minute and try again, or check your plan\'s limits.';
+    case 'invalidInput':
+      // Without a status the input was rejected before it was sent, with its own explanation.
+      if (error.status === undefined) return error.message;
+      return `The AI service could not process this input (${error.message}). Try a shorter text or recording, or another file format.`;
+    case 'safety':
+      return 'The AI service declined this content because of its safety filters. Rephrase the text and try again.';
+    case 'noSpeech':
+      return 'No speech was found in the recording. Check that the right file or microphone was used.';
+    case 'network':
+      return 'Could not reach the AI service. Check your internet connection and try again.';
+    case 'unavailable':
+      return 'The AI service is temporarily unavailable. Try again in a few minutes.';
+    case 'malformedResponse':
+      return 'The AI service returned an unusable answer. Try again.';
+    case 'cancelled':
+      return 'Cancelled.';
+    default:
+      return error.message;
+  }
+}
@@ -0,0 +1,44 @@
+import type { DialogueTurn, Glossary, TranscriptSegment, VoiceSettings } from '../types';
+
+export interface DetectedLanguage {
+  languageName: string;
+  languageCode: string;
+}
+
+export interface TranscriptionResult extends DetectedLanguage {
+  transcript: string;
+  segments: TranscriptSegment[];
+}
+
+// The stages of the pipeline. Every backend (Gemini, the local stand-in, ...)
+// implements this interface so the rest of the app never talks to an SDK directly.
+// Methods reject with an AIServiceError (see ./aiErrors), of kind 'cancelled' once
+// `signal` is aborted.
+export interface AIProvider {
+  name: string;
+  detectLanguageFromText(text: string, signal?: AbortSignal): Promise<DetectedLanguage>;
+  transcribeAudio(audioBase64: string, mimeType: string, signal?: AbortSignal): Promise<TranscriptionResult>;
+  // `glossary` only holds the entries relevant to the text and target languages.
+  translateText(text: string, sourceLanguage: string, languages: string[], glossary?: Glossary, signal?: AbortSignal): Promise<Record<string, string>>;
+  // Translates each segment on its own so the source timings can be reused.
+  // Every returned array has exactly one entry per input segment.
+  translateSegments(segments: string[], sourceLanguage: string, languages: string[], glossary?: Glossary, signal?: AbortSignal): Promise<Record<string, string[]>>;
+  // Rewrites each segment, in its own language, to about `lengthRatio` times its current
+  // spoken length while keeping the meaning. Returns one entry per input segment.
+  adjustLength(segments: string[], language: string, lengthRatio: number, signal?: AbortSignal): Promise<string[]>;
+  // Returns raw 16-bit mono PCM at 24 kHz, base64 encoded.
+  synthesizeSpeech(text: string, voice: VoiceSettings, signal?: AbortSignal): Promise<string>;
+  // Speaks a conversation with one voice per speaker. Callers pass at most
+  // MAX_DIALOGUE_SPEAKERS distinct speakers; same output format as synthesizeSpeech.
+  synthesizeDialogue(turns: DialogueTurn[], speakerVoices: Record<string, string>, style?: string, signal?: AbortSignal): Promise<string>;
+}
+
+// Limit of the multi-speaker TTS configuration.
+export const MAX_DIALOGUE_SPEAKERS = 2;
+
+export type AIProviderName = 'gemini' | 'local';
+
+export const getConfiguredProviderName = (): AIProviderName => {
+  const configured = (process.env.AI_PROVIDER || '').trim().toLowerCase();
+  return configured === 'local' ? 'local' : 'gemini';
+};
@@ -0,0 +1,58 @@
+const DB_NAME = 'translator-voiceover';
+const DB_VERSION = 2;
+
+export const PROJECTS_STORE = 'projects';
+export const TRANSLATION_MEMORY_STORE = 'translationMemory';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// One database for everything the app keeps locally. Each version step only
+// adds stores, so upgrading never touches existing data.
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(TRANSLATION_MEMORY_STORE)) {
+        db.createObjectStore(TRANSLATION_MEMORY_STORE, { keyPath: 'id' }).createIndex('languagePair', 'languagePair');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a later call to try again if opening failed (e.g. private browsing).
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+// Runs a single request in its own transaction and resolves once it has committed.
+export async function runRequest<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Runs several writes atomically in one transaction.
+export async function runTransaction(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => void): Promise<void> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
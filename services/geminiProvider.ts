@@ -0,0 +1,421 @@
+import { GoogleGenAI, Type, Modality } from '@google/genai';
+import type { GenerateContentResponse } from '@google/genai';
+import type { AIProvider, DetectedLanguage, TranscriptionResult } from './aiProvider';
+import { AIServiceError, toAIServiceError } from './aiErrors';
+import type { DialogueTurn, Glossary, TranscriptSegment, VoiceSettings } from '../types';
+import { joinSegments } from '../utils/subtitleUtils';
+import { formatGlossaryForPrompt } from '../utils/glossary';
+import { hasEmphasisMarkup } from '../utils/speechMarkup';
+
+// Helper to validate and get API key safely
+const getApiKey = () => {
+  const key = process.env.API_KEY;
+  if (!key || key === 'undefined' || key.trim() === '') {
+    console.error("CRITICAL ERROR: API_KEY is missing. Please set the API_KEY environment variable in your Vercel Project Settings.");
+    return '';
+  }
+  return key;
+};
+
+let client: GoogleGenAI | null = null;
+
+// The client is created on first use so that selecting another provider never
+// requires (or complains about) a Gemini key.
+const getClient = (): GoogleGenAI => {
+  if (client) return client;
+  const apiKey = getApiKey();
+  if (!apiKey) throw new AIServiceError('auth', "API Key is missing. Check Vercel settings.");
+  client = new GoogleGenAI({ apiKey });
+  return client;
+};
+
+// Safety filters either block the prompt outright or cut the answer short.
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const reason = response.promptFeedback?.blockReason || response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (reason && BLOCKING_FINISH_REASONS.includes(reason))) {
+    throw new AIServiceError('safety', `The content was blocked by the safety filters (${reason}).`);
+  }
+};
+
+// Reads a JSON answer; `stage` names the request in error messages. The shape is
+// checked by the caller.
+const parseJsonResponse = (response: GenerateContentResponse, stage: string): unknown => {
+  assertNotBlocked(response);
+  const responseText = response.text;
+  if (!responseText) {
+    throw new AIServiceError('malformedResponse', `No text content returned from ${stage}.`);
+  }
+  try {
+    return JSON.parse(responseText.trim());
+  } catch {
+    throw new AIServiceError('malformedResponse', `The ${stage} response was not valid JSON.`);
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A non-empty string field of a parsed answer.
+const stringField = (value: unknown, key: string): string | undefined => {
+  const field = isRecord(value) ? value[key] : undefined;
+  return typeof field === 'string' && field.trim() ? field.trim() : undefined;
+};
+
+const audioFromResponse = (response: GenerateContentResponse): string => {
+  assertNotBlocked(response);
+  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!base64Audio) {
+    throw new AIServiceError('malformedResponse', 'No audio data received from API.');
+  }
+  return base64Audio;
+};
+
+// Drops empty segments and makes the timings monotonic, since the model
+// occasionally returns overlapping or reversed ranges.
+const normalizeSegments = (raw: unknown): TranscriptSegment[] => {
+  if (!Array.isArray(raw)) return [];
+  let previousEnd = 0;
+  return raw
+    .filter(seg => seg && typeof seg.text === 'string' && seg.text.trim())
+    .map(seg => {
+      const start = Math.max(previousEnd, Number(seg.start) || 0);
+      const end = Math.max(start, Number(seg.end) || start);
+      previousEnd = end;
+      const speaker = typeof seg.speaker === 'string' && seg.speaker.trim() ? seg.speaker.trim() : undefined;
+      return { start, end, text: seg.text.trim(), speaker };
+    });
+};
+
+// Forces a translated segment list to line up one-to-one with the source list.
+const fitSegmentCount = (translated: unknown, count: number): string[] => {
+  const list = Array.isArray(translated) ? translated.map(item => String(item ?? '')) : [];
+  if (list.length > count && count > 0) {
+    return [...list.slice(0, count - 1), list.slice(count - 1).join(' ')];
+  }
+  while (list.length < count) list.push('');
+  return list;
+};
+
+async function detectLanguageFromText(text: string, signal?: AbortSignal): Promise<DetectedLanguage> {
+    const ai = getClient();
+
+    const model = 'gemini-2.5-flash';
+    const prompt = `Identify the language of the following text.
+Provide the output as a single JSON object with two keys: "languageName" (the full name of the language, e.g., "English"), and "languageCode" (the ISO 639-1 code, e.g., "en").
+
+Text: "${text}"`;
+
+    try {
+        const response = await ai.models.generateContent({
+            model,
+            contents: prompt,
+            config: {
+                abortSignal: signal,
+                responseMimeType: 'application/json',
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        languageName: { type: Type.STRING, description: "The full name of the detected language." },
+                        languageCode: { type: Type.STRING, description: "The ISO 639-1 code for the language." },
+                    },
+                    required: ["languageName", "languageCode"],
+                }
+            }
+        });
+
+        const result = parseJsonResponse(response, 'language detection');
+        const languageName = stringField(result, 'languageName');
+        const languageCode = stringField(result, 'languageCode');
+        if (!languageName || !languageCode) {
+            throw new AIServiceError('invalidInput', "Could not determine the language from the text.");
+        }
+        return { languageName, languageCode };
+    } catch (error) {
+        console.error("Gemini API Error (Text Detection):", error);
+        throw toAIServiceError(error, "Failed to connect to AI service.");
+    }
+}
+
+async function transcribeAudio(audioBase64: string, mimeType: string, signal?: AbortSignal): Promise<TranscriptionResult> {
+  const ai = getClient();
+  
+  const model = 'gemini-2.5-flash';
+  const audioPart = {
+    inlineData: {
+      data: audioBase64,
+      mimeType: mimeType || 'audio/webm',
+    },
+  };
+  const textPart = {
+    text: `Transcribe the spoken audio exactly as it is spoken, in its original language.
+    Do not translate. Detect the language from the audio.
+    Split the transcription into short subtitle-sized segments (one sentence or clause each, at most about 7 seconds),
+    and give each segment its start and end time in seconds from the beginning of the audio.
+    Identify the distinct speakers and label every segment with its speaker, using "Speaker 1", "Speaker 2", etc.
+    in order of first appearance. A segment never contains speech from more than one speaker.
+    Provide the output as a single JSON object with three keys: 
+    "languageName" (the full name of the detected language), 
+    "languageCode" (the ISO 639-1 code), 
+    and "segments" (an array of objects with "start", "end", "speaker" and "text", in chronological order).`,
+  };
+  
+  try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: { parts: [audioPart, textPart] },
+        config: {
+            abortSignal: signal,
+            responseMimeType: 'application/json',
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    languageName: { type: Type.STRING, description: "The full name of the detected language." },
+                    languageCode: { type: Type.STRING, description: "The ISO 639-1 code for the language." },
+                    segments: {
+                        type: Type.ARRAY,
+                        description: "The transcribed text in the original language, split into timed segments.",
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                start: { type: Type.NUMBER, description: "Segment start time in seconds." },
+                                end: { type: Type.NUMBER, description: "Segment end time in seconds." },
+                                speaker: { type: Type.STRING, description: "Label of the speaker, e.g. \"Speaker 1\"." },
+                                text: { type: Type.STRING, description: "The text spoken in this segment." },
+                            },
+                            required: ["start", "end", "speaker", "text"],
+                        },
+                    },
+                },
+                required: ["languageName", "languageCode", "segments"],
+            }
+        }
+      });
+
+      const result = parseJsonResponse(response, 'transcription');
+      const languageName = stringField(result, 'languageName');
+      const languageCode = stringField(result, 'languageCode');
+      const segments = normalizeSegments(isRecord(result) ? result.segments : undefined);
+      if (segments.length === 0) throw new AIServiceError('noSpeech', 'The transcription came back without any speech.');
+      if (!languageName || !languageCode) {
+          throw new AIServiceError('invalidInput', "Could not determine the language or transcribe the audio.");
+      }
+      return {
+          languageName,
+          languageCode,
+          transcript: joinSegments(segments),
+          segments,
+      };
+  } catch (error) {
+      console.error("Gemini API Error (Transcription):", error);
+      throw toAIServiceError(error, "Failed to transcribe audio.");
+  }
+}
+
+async function translateText(text: string, sourceLanguage: string, languages: string[], glossary?: Glossary, signal?: AbortSignal): Promise<Record<string, string>> {
+  const ai = getClient();
+  
+  const model = 'gemini-2.5-flash';
+  const prompt = `Translate the following ${sourceLanguage} text into multiple languages. 
+  Preserve the original tone, style, and approximate character count as much as possible.
+  Provide the output as a single JSON object where each key is a language code from the list and the value is the translated text.
+  ${glossary ? formatGlossaryForPrompt(glossary) : ''}
+
+  Languages to translate to: ${languages.join(', ')}
+
+  Text to translate:
+  "${text}"
+  `;
+
+  try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          abortSignal: signal,
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: languages.reduce((acc, lang) => {
+              acc[lang] = { type: Type.STRING };
+              return acc;
+            }, {} as Record<string, { type: Type.STRING }>),
+          }
+        }
+      });
+      
+      const result = parseJsonResponse(response, 'translation');
+      if (!isRecord(result)) throw new AIServiceError('malformedResponse', 'The translation response was not a JSON object.');
+      return languages.reduce((acc, lang) => {
+        const text = result[lang];
+        if (typeof text === 'string') acc[lang] = text;
+        return acc;
+      }, {} as Record<string, string>);
+  } catch (error) {
+      console.error("Gemini API Error (Translation):", error);
+      throw toAIServiceError(error, "Failed to translate text.");
+  }
+}
+
+async function translateSegments(segments: string[], sourceLanguage: string, languages: string[], glossary?: Glossary, signal?: AbortSignal): Promise<Record<string, string[]>> {
+  const ai = getClient();
+
+  const model = 'gemini-2.5-flash';
+  const prompt = `Translate the following numbered ${sourceLanguage} subtitle segments into multiple languages.
+  Translate each segment on its own, keeping the same order and exactly ${segments.length} segments per language, so the translations can be shown with the original timings.
+  Preserve the original tone and style. Never merge or split segments.
+  Provide the output as a single JSON object where each key is a language code from the list and the value is the array of translated segments.
+  ${glossary ? formatGlossaryForPrompt(glossary) : ''}
+
+  Languages to translate to: ${languages.join(', ')}
+
+  Segments to translate:
+  ${JSON.stringify(segments)}
+  `;
+
+  try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          abortSignal: signal,
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: languages.reduce((acc, lang) => {
+              acc[lang] = { type: Type.ARRAY, items: { type: Type.STRING } };
+              return acc;
+            }, {} as Record<string, { type: Type.ARRAY; items: { type: Type.STRING } }>),
+          }
+        }
+      });
+
+      const jsonResponse = parseJsonResponse(response, 'translation');
+      return languages.reduce((acc, lang) => {
+        acc[lang] = fitSegmentCount(isRecord(jsonResponse) ? jsonResponse[lang] : undefined, segments.length);
+        return acc;
+      }, {} as Record<string, string[]>);
+  } catch (error) {
+      console.error("Gemini API Error (Segment Translation):", error);
+      throw toAIServiceError(error, "Failed to translate text.");
+  }
+}
+
+async function adjustLength(segments: string[], language: string, lengthRatio: number, signal?: AbortSignal): Promise<string[]> {
+  const ai = getClient();
+
+  const model = 'gemini-2.5-flash';
+  const percent = Math.round(lengthRatio * 100);
+  const prompt = `The following numbered ${language} voiceover segments must be spoken in ${percent}% of their current time.
+  Rewrite each segment in ${language} so it is about ${percent}% of its current length in words, ${lengthRatio < 1 ? 'tightening the wording and dropping filler' : 'expanding the wording naturally without adding new facts'}.
+  Keep the meaning, names, numbers and tone. Keep the same order and exactly ${segments.length} segments; never merge or split segments.
+  Segments may contain speech tags in square brackets, such as [pause 1s], [emph: word] and [spell: ABC]. Keep every tag exactly as written, in the same place relative to its words.
+  Provide the output as a JSON array of strings.
+
+  Segments:
+  ${JSON.stringify(segments)}
+  `;
+
+  try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          abortSignal: signal,
+          responseMimeType: 'application/json',
+          responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+        }
+      });
+
+      return fitSegmentCount(parseJsonResponse(response, 'the rewrite'), segments.length);
+  } catch (error) {
+      console.error("Gemini API Error (Length Adjustment):", error);
+      throw toAIServiceError(error, "Failed to adjust the translation length.");
+  }
+}
+
+// Speech markup leaves emphasized words between asterisks for the model to stress.
+const EMPHASIS_DIRECTION = 'stressing the words between asterisks without reading the asterisks aloud';
+
+async function synthesizeSpeech(text: string, voice: VoiceSettings, signal?: AbortSignal): Promise<string> {
+    const ai = getClient();
+
+    const model = 'gemini-2.5-flash-preview-tts';
+    // The TTS model takes delivery directions as a natural-language preamble.
+    const style = voice.style?.trim();
+    const directions = [style && `in this style (${style})`, hasEmphasisMarkup(text) && EMPHASIS_DIRECTION].filter(Boolean);
+    const prompt = directions.length > 0 ? `Say the following ${directions.join(', ')}:\n\n${text}` : text;
+    
+    try {
+        const response = await ai.models.generateContent({
+            model,
+            contents: [{ parts: [{ text: prompt }] }],
+            config: {
+                abortSignal: signal,
+                responseModalities: [Modality.AUDIO],
+                speechConfig: {
+                    voiceConfig: {
+                        prebuiltVoiceConfig: { voiceName: voice.voiceName },
+                    },
+                },
+            },
+        });
+
+        return audioFromResponse(response);
+    } catch (error) {
+        console.error("Gemini API Error (Voiceover):", error);
+        throw toAIServiceError(error, "Failed to generate voiceover.");
+    }
+}
+
+async function synthesizeDialogue(turns: DialogueTurn[], speakerVoices: Record<string, string>, style?: string, signal?: AbortSignal): Promise<string> {
+    const ai = getClient();
+
+    const model = 'gemini-2.5-flash-preview-tts';
+    // Speaker labels are arbitrary user text, so the prompt uses simple aliases
+    // that are guaranteed to match the names in the speech config.
+    const speakers = Array.from(new Set(turns.map(t => t.speaker)));
+    const aliases = new Map(speakers.map((speaker, i) => [speaker, `Speaker${String.fromCharCode(65 + i)}`]));
+    const script = turns.map(turn => `${aliases.get(turn.speaker)}: ${turn.text}`).join('\n');
+    const directions = [style?.trim() && `in this style (${style.trim()})`, hasEmphasisMarkup(script) && EMPHASIS_DIRECTION].filter(Boolean);
+    const direction = directions.length > 0 ? ` ${directions.join(', ')}` : '';
+    const prompt = `TTS the following conversation between ${Array.from(aliases.values()).join(' and ')}${direction}:\n${script}`;
+
+    try {
+        const response = await ai.models.generateContent({
+            model,
+            contents: [{ parts: [{ text: prompt }] }],
+            config: {
+                abortSignal: signal,
+                responseModalities: [Modality.AUDIO],
+                speechConfig: {
+                    multiSpeakerVoiceConfig: {
+                        speakerVoiceConfigs: speakers.map(speaker => ({
+                            speaker: aliases.get(speaker),
+                            voiceConfig: {
+                                prebuiltVoiceConfig: { voiceName: speakerVoices[speaker] },
+                            },
+                        })),
+                    },
+                },
+            },
+        });
+
+        return audioFromResponse(response);
+    } catch (error) {
+        console.error("Gemini API Error (Dialogue Voiceover):", error);
+        throw toAIServiceError(error, "Failed to generate voiceover.");
+    }
+}
+
+export const geminiProvider: AIProvider = {
+  name: 'gemini',
+  detectLanguageFromText,
+  transcribeAudio,
+  translateText,
+  translateSegments,
+  adjustLength,
+  synthesizeSpeech,
+  synthesizeDialogue,
+};
@@ -1,186 +1,164 @@
-import { GoogleGenAI, Type, Modality } from '@google/genai';
-import { createWavFile } from '../utils/audioUtils';
-
-// Helper to validate and get API key safely
-const getApiKey = () => {
-  const key = process.env.API_KEY;
-  if (!key || key === 'undefined' || key.trim() === '') {
-    console.error("CRITICAL ERROR: API_KEY is missing. Please set the API_KEY environment variable in your Vercel Project Settings.");
-    return '';
-  }
-  return key;
+import { createWavFile, concatBase64Pcm } from '../utils/audioUtils';
+import { getConfiguredProviderName, MAX_DIALOGUE_SPEAKERS } from './aiProvider';
+import type { AIProvider, DetectedLanguage, TranscriptionResult } from './aiProvider';
+import { AIServiceError, throwIfAborted, toAIServiceError } from './aiErrors';
+import type { DialogueTurn, Glossary, PronunciationEntry, VoiceSettings } from '../types';
+import { DEFAULT_VOICE, MAX_TTS_CHUNK_CHARS, DEFAULT_SENTENCE_PAUSE_MS, CHUNK_JOIN_PAUSE_MS, TTS_CHUNK_RETRIES, AI_REQUEST_RETRIES, RETRY_BASE_DELAY_MS, MAX_RETRY_DELAY_MS } from '../constants';
+import { splitIntoChunks, splitIntoSentences } from '../utils/textChunking';
+import { renderSpeech, renderSpeechText } from '../utils/speechMarkup';
+import { relevantGlossary, isGlossaryEmpty } from '../utils/glossary';
+import { geminiProvider } from './geminiProvider';
+import { localProvider } from './localProvider';
+
+const PROVIDERS: Record<string, AIProvider> = {
+  gemini: geminiProvider,
+  local: localProvider,
 };
 
-const apiKey = getApiKey();
-// Initialize the client only if we have a key (or empty string, but we will throw on usage if empty)
-const ai = new GoogleGenAI({ apiKey: apiKey || 'dummy_key_to_prevent_crash_on_init' });
-
-export async function detectLanguageFromText(text: string): Promise<{ languageName: string; languageCode: string; }> {
-    if (!apiKey) throw new Error("API Key is missing. Check Vercel settings.");
+let activeProvider: AIProvider = PROVIDERS[getConfiguredProviderName()];
 
-    const model = 'gemini-2.5-flash';
-    const prompt = `Identify the language of the following text.
-Provide the output as a single JSON object with two keys: "languageName" (the full name of the language, e.g., "English"), and "languageCode" (the ISO 639-1 code, e.g., "en").
+export const getAIProvider = (): AIProvider => activeProvider;
 
-Text: "${text}"`;
+// Swaps the backend at runtime, e.g. to inject a fake provider in tests.
+export const setAIProvider = (provider: AIProvider) => {
+  activeProvider = provider;
+};
 
+// Waits `ms`, or rejects as cancelled as soon as `signal` is aborted.
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new AIServiceError('cancelled', 'The request was cancelled.'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs a provider call, retrying rate-limited and transient failures with exponential
+// backoff (plus jitter, or the wait the service asked for). Other failures, and any
+// failure once `signal` is aborted, are rethrown at once as AIServiceErrors.
+async function withRetries<T>(task: () => Promise<T>, signal?: AbortSignal, retries = AI_REQUEST_RETRIES): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
     try {
-        const response = await ai.models.generateContent({
-            model,
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        languageName: { type: Type.STRING, description: "The full name of the detected language." },
-                        languageCode: { type: Type.STRING, description: "The ISO 639-1 code for the language." },
-                    },
-                    required: ["languageName", "languageCode"],
-                }
-            }
-        });
-
-        const responseText = response.text;
-        if (!responseText) {
-            throw new Error("No text content returned from language detection.");
-        }
-
-        const result = JSON.parse(responseText.trim());
-        if (!result.languageName || !result.languageCode) {
-            throw new Error("Could not determine the language from the text.");
-        }
-        return result;
-    } catch (error: any) {
-        console.error("Gemini API Error (Text Detection):", error);
-        throw new Error(error.message || "Failed to connect to AI service.");
+      return await task();
+    } catch (caught) {
+      throwIfAborted(signal);
+      const error = toAIServiceError(caught, 'The AI request failed.');
+      if (!error.isRetryable || attempt >= retries) throw error;
+      const backoff = Math.min(MAX_RETRY_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt * (1 + Math.random() / 2));
+      const wait = Math.max(backoff, Math.min(MAX_RETRY_DELAY_MS, error.retryAfterMs ?? 0));
+      console.warn(`AI request failed (${error.kind}, attempt ${attempt + 1}), retrying in ${Math.round(wait)} ms...`, error);
+      await sleep(wait, signal);
     }
+  }
 }
 
-export async function transcribeAudio(audioBase64: string, mimeType: string): Promise<{ transcript: string; languageName: string; languageCode: string; }> {
-  if (!apiKey) throw new Error("API Key is missing. Check Vercel settings.");
-  
-  const model = 'gemini-2.5-flash';
-  const audioPart = {
-    inlineData: {
-      data: audioBase64,
-      mimeType: mimeType || 'audio/webm',
-    },
-  };
-  const textPart = {
-    text: `Transcribe the spoken audio exactly as it is spoken, in its original language.
-    Do not translate. Detect the language from the audio.
-    Provide the output as a single JSON object with three keys: 
-    "languageName" (the full name of the detected language), 
-    "languageCode" (the ISO 639-1 code), 
-    and "transcript" (the transcribed text in the detected original language).`,
-  };
-  
-  try {
-      const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [audioPart, textPart] },
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    languageName: { type: Type.STRING, description: "The full name of the detected language." },
-                    languageCode: { type: Type.STRING, description: "The ISO 639-1 code for the language." },
-                    transcript: { type: Type.STRING, description: "The transcribed text in the original language." },
-                },
-                required: ["languageName", "languageCode", "transcript"],
-            }
-        }
-      });
-
-      const responseText = response.text;
-      if (!responseText) {
-          throw new Error("No text content returned from transcription.");
-      }
-
-      const result = JSON.parse(responseText.trim());
-      if (!result.languageName || !result.transcript || !result.languageCode) {
-          throw new Error("Could not determine the language or transcribe the audio.");
-      }
-      return result;
-  } catch (error: any) {
-      console.error("Gemini API Error (Transcription):", error);
-      throw new Error(error.message || "Failed to transcribe audio.");
-  }
+export function detectLanguageFromText(text: string, signal?: AbortSignal): Promise<DetectedLanguage> {
+  return withRetries(() => activeProvider.detectLanguageFromText(text, signal), signal);
+}
+
+export function transcribeAudio(audioBase64: string, mimeType: string, signal?: AbortSignal): Promise<TranscriptionResult> {
+  return withRetries(() => activeProvider.transcribeAudio(audioBase64, mimeType, signal), signal);
 }
 
-export async function translateText(text: string, sourceLanguage: string, languages: string[]): Promise<Record<string, string>> {
-  if (!apiKey) throw new Error("API Key is missing. Check Vercel settings.");
-  
-  const model = 'gemini-2.5-flash';
-  const prompt = `Translate the following ${sourceLanguage} text into multiple languages. 
-  Preserve the original tone, style, and approximate character count as much as possible.
-  Provide the output as a single JSON object where each key is a language code from the list and the value is the translated text.
-
-  Languages to translate to: ${languages.join(', ')}
-
-  Text to translate:
-  "${text}"
-  `;
-
-  try {
-      const response = await ai.models.generateContent({
-        model,
-        contents: prompt,
-        config: {
-          responseMimeType: 'application/json',
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: languages.reduce((acc, lang) => {
-              acc[lang] = { type: Type.STRING };
-              return acc;
-            }, {} as Record<string, { type: Type.STRING }>),
-          }
-        }
-      });
-      
-      const responseText = response.text;
-      if (!responseText) {
-          throw new Error("No text content returned from translation.");
-      }
-
-      const jsonResponse = JSON.parse(responseText.trim());
-      return jsonResponse;
-  } catch (error: any) {
-      console.error("Gemini API Error (Translation):", error);
-      throw new Error(error.message || "Failed to translate text.");
+// Narrows the glossary to what the text actually uses, keeping prompts short.
+const glossaryFor = (sourceText: string, languages: string[], glossary?: Glossary): Glossary | undefined => {
+  if (!glossary) return undefined;
+  const relevant = relevantGlossary(glossary, sourceText, languages);
+  return isGlossaryEmpty(relevant) ? undefined : relevant;
+};
+
+export function translateText(text: string, sourceLanguage: string, languages: string[], glossary?: Glossary, signal?: AbortSignal): Promise<Record<string, string>> {
+  const relevant = glossaryFor(text, languages, glossary);
+  return withRetries(() => activeProvider.translateText(text, sourceLanguage, languages, relevant, signal), signal);
+}
+
+export function translateSegments(segments: string[], sourceLanguage: string, languages: string[], glossary?: Glossary, signal?: AbortSignal): Promise<Record<string, string[]>> {
+  const relevant = glossaryFor(segments.join('\n'), languages, glossary);
+  return withRetries(() => activeProvider.translateSegments(segments, sourceLanguage, languages, relevant, signal), signal);
+}
+
+export function adjustLength(segments: string[], language: string, lengthRatio: number, signal?: AbortSignal): Promise<string[]> {
+  return withRetries(() => activeProvider.adjustLength(segments, language, lengthRatio, signal), signal);
+}
+
+export interface VoiceoverOptions {
+  // Called before each chunk is synthesized, with a 1-based chunk number.
+  onProgress?: (current: number, total: number) => void;
+  // Pronunciations for the voiceover's language, applied before synthesis.
+  lexicon?: PronunciationEntry[];
+  // Stops the remaining chunks; the call then rejects as cancelled.
+  signal?: AbortSignal;
+}
+
+// Each chunk is retried on its own so one flaky request does not throw away the
+// chunks that already succeeded.
+async function synthesizeChunks(tasks: Array<() => Promise<string>>, pauseMs: number | number[], options: VoiceoverOptions): Promise<string> {
+  const parts: string[] = [];
+  for (let i = 0; i < tasks.length; i++) {
+    options.onProgress?.(i + 1, tasks.length);
+    parts.push(await withRetries(tasks[i], options.signal, TTS_CHUNK_RETRIES));
   }
+  return createWavFile(concatBase64Pcm(parts, pauseMs));
 }
 
-export async function generateVoiceover(text: string): Promise<string> {
-    if (!apiKey) throw new Error("API Key is missing. Check Vercel settings.");
+// Synthesizing nothing would produce a silent file that looks like a finished voiceover.
+const noTextError = () => new AIServiceError('invalidInput', 'There is no text to speak. Add or translate some text first.');
+
+// Text may carry speech markup (see utils/speechMarkup): each explicit pause splits the
+// text, and exactly that much silence is inserted where it was. A sentence pause needs
+// every sentence synthesized on its own, so the silence can go between them.
+export async function generateVoiceover(text: string, voice: VoiceSettings = { voiceName: DEFAULT_VOICE }, options: VoiceoverOptions = {}): Promise<string> {
+  const sentencePause = voice.pauseMs ?? DEFAULT_SENTENCE_PAUSE_MS;
+  const chunkPause = sentencePause > 0 ? sentencePause : CHUNK_JOIN_PAUSE_MS;
+  const parts = renderSpeech(text, options.lexicon);
+  if (!parts.some(part => part.text.trim())) throw noTextError();
+  const tasks: Array<() => Promise<string>> = [];
+  const pauses: number[] = [];
+  parts.forEach(part => {
+    const chunks = sentencePause > 0
+      ? splitIntoSentences(part.text, MAX_TTS_CHUNK_CHARS)
+      : splitIntoChunks(part.text, MAX_TTS_CHUNK_CHARS);
+    chunks.forEach((chunk, i) => {
+      tasks.push(() => activeProvider.synthesizeSpeech(chunk, voice, options.signal));
+      pauses.push(i === chunks.length - 1 ? part.pauseAfterMs ?? chunkPause : chunkPause);
+    });
+  });
+  return synthesizeChunks(tasks, pauses, options);
+}
 
-    const model = 'gemini-2.5-flash-preview-tts';
-    
-    try {
-        const response = await ai.models.generateContent({
-            model,
-            contents: [{ parts: [{ text }] }],
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: 'Puck' },
-                    },
-                },
-            },
-        });
-
-        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-        if (!base64Audio) {
-            throw new Error('No audio data received from API.');
-        }
-
-        const wavBlobUrl = createWavFile(base64Audio);
-        return wavBlobUrl;
-    } catch (error: any) {
-        console.error("Gemini API Error (Voiceover):", error);
-        throw new Error(error.message || "Failed to generate voiceover.");
+// Speaks a diarized conversation with one voice per speaker. Turns are packed
+// into chunks that respect both the TTS length limit and the number of voices
+// the model can mix in one request; single-voice chunks use plain TTS.
+export async function generateDialogueVoiceover(turns: DialogueTurn[], speakerVoices: Record<string, string>, voice: VoiceSettings = { voiceName: DEFAULT_VOICE }, options: VoiceoverOptions = {}): Promise<string> {
+  // Dialogue is synthesized in mixed-speaker requests, so pauses are only approximated there.
+  const pieces = turns.flatMap(turn => splitIntoChunks(renderSpeechText(turn.text, options.lexicon), MAX_TTS_CHUNK_CHARS).map(text => ({ speaker: turn.speaker, text })));
+  if (!pieces.some(piece => piece.text.trim())) throw noTextError();
+
+  const groups: DialogueTurn[][] = [];
+  let current: DialogueTurn[] = [];
+  let currentChars = 0;
+  pieces.forEach(piece => {
+    const speakers = new Set([...current.map(t => t.speaker), piece.speaker]);
+    if (current.length > 0 && (currentChars + piece.text.length > MAX_TTS_CHUNK_CHARS || speakers.size > MAX_DIALOGUE_SPEAKERS)) {
+      groups.push(current);
+      current = [];
+      currentChars = 0;
     }
-}
\ No newline at end of file
+    current.push(piece);
+    currentChars += piece.text.length;
+  });
+  if (current.length > 0) groups.push(current);
+
+  const tasks = groups.map(group => () => {
+    const speakers = new Set(group.map(t => t.speaker));
+    return speakers.size === 1
+      ? activeProvider.synthesizeSpeech(group.map(t => t.text).join(' '), { voiceName: speakerVoices[group[0].speaker], style: voice.style }, options.signal)
+      : activeProvider.synthesizeDialogue(group, speakerVoices, voice.style, options.signal);
+  });
+  return synthesizeChunks(tasks, voice.pauseMs || CHUNK_JOIN_PAUSE_MS, options);
+}
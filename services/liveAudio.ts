@@ -0,0 +1,90 @@
+import { decodeToMono, encodeWav, floatToPcm16, getRecordingMimeType, SPEECH_SAMPLE_RATE } from '../utils/audioUtils';
+
+// Where live mode gets its audio from. Every chunk handed to `onChunk` is a complete,
+// independently decodable file covering the next `chunkSeconds` of audio. Sources are
+// interchangeable, so live mode can run against a replayed file instead of a microphone.
+export interface LiveAudioSource {
+  start(onChunk: (chunk: Blob) => void, onEnd: () => void): Promise<void>;
+  stop(): void;
+}
+
+// Records the microphone in back-to-back recordings of `chunkSeconds` each.
+export function createMicrophoneSource(chunkSeconds: number): LiveAudioSource {
+  let stream: MediaStream | null = null;
+  let recorder: MediaRecorder | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let endHandler: (() => void) | null = null;
+
+  const stop = () => {
+    clearTimeout(timer);
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+    stream?.getTracks().forEach(track => track.stop());
+    stream = null;
+    endHandler?.();
+    endHandler = null;
+  };
+
+  return {
+    async start(onChunk, onEnd) {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      endHandler = onEnd;
+      const mimeType = getRecordingMimeType();
+
+      // A fresh recorder per chunk: timeslice chunks of a single recording only
+      // decode together with the first one, which carries the container header.
+      const record = (source: MediaStream) => {
+        const parts: Blob[] = [];
+        const current = new MediaRecorder(source, mimeType ? { mimeType } : undefined);
+        current.addEventListener('dataavailable', event => {
+          if (event.data.size > 0) parts.push(event.data);
+        });
+        current.addEventListener('stop', () => {
+          if (parts.length > 0) onChunk(new Blob(parts, { type: current.mimeType || mimeType || 'audio/mp4' }));
+        });
+        current.start();
+        recorder = current;
+        timer = setTimeout(() => {
+          current.stop();
+          if (stream === source) record(source);
+        }, chunkSeconds * 1000);
+      };
+      record(stream);
+    },
+    stop,
+  };
+}
+
+// Local stand-in for a microphone: plays a file back as chunks at real-time pace.
+export function createFileReplaySource(file: Blob, chunkSeconds: number): LiveAudioSource {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let endHandler: (() => void) | null = null;
+
+  const stop = () => {
+    clearTimeout(timer);
+    endHandler?.();
+    endHandler = null;
+  };
+
+  return {
+    async start(onChunk, onEnd) {
+      endHandler = onEnd;
+      const { samples } = await decodeToMono(file, SPEECH_SAMPLE_RATE);
+      const chunkSize = Math.round(chunkSeconds * SPEECH_SAMPLE_RATE);
+      let offset = 0;
+      const next = () => {
+        if (!endHandler) return;
+        const slice = samples.subarray(offset, offset + chunkSize);
+        offset += chunkSize;
+        onChunk(encodeWav(new Uint8Array(floatToPcm16(slice).buffer), SPEECH_SAMPLE_RATE));
+        if (offset >= samples.length) {
+          stop();
+        } else {
+          timer = setTimeout(next, chunkSeconds * 1000);
+        }
+      };
+      // Like a microphone, the first chunk is ready once its audio has "happened".
+      timer = setTimeout(next, Math.min(chunkSeconds, samples.length / SPEECH_SAMPLE_RATE) * 1000);
+    },
+    stop,
+  };
+}
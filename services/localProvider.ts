@@ -0,0 +1,182 @@
+import type { AIProvider, DetectedLanguage, TranscriptionResult } from './aiProvider';
+import { AIServiceError } from './aiErrors';
+import type { DialogueTurn, Glossary, VoiceSettings } from '../types';
+import { LANGUAGES } from '../constants';
+import { uint8ArrayToBase64, concatBase64Pcm } from '../utils/audioUtils';
+import { joinSegments } from '../utils/subtitleUtils';
+import { escapeRegExp } from '../utils/glossary';
+
+// A deterministic, offline stand-in for the real AI backend. It produces
+// plausible-looking output for every pipeline stage so the whole flow can be
+// exercised without network access or an API key. Same input, same output.
+
+const SAMPLE_RATE = 24000;
+const SIMULATED_LATENCY_MS = 250;
+
+// Simulated request time; rejects like a real request once `signal` is aborted.
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new AIServiceError('cancelled', 'The request was cancelled.'));
+  };
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'of', 'to', 'you', 'this', 'that', 'with'],
+  pt: ['o', 'a', 'os', 'as', 'de', 'que', 'não', 'uma', 'um', 'com', 'para', 'é'],
+  es: ['el', 'la', 'los', 'las', 'de', 'que', 'y', 'es', 'una', 'con', 'para', 'por'],
+  fr: ['le', 'la', 'les', 'des', 'et', 'est', 'une', 'un', 'que', 'pour', 'avec', 'dans'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'mit', 'für', 'zu'],
+  it: ['il', 'lo', 'gli', 'di', 'che', 'e', 'è', 'una', 'con', 'per', 'non'],
+};
+
+const SCRIPT_RANGES: Array<{ code: string; pattern: RegExp }> = [
+  { code: 'ja', pattern: /[\u3040-\u30FF]/ },
+  { code: 'ko', pattern: /[\uAC00-\uD7AF]/ },
+  { code: 'zh', pattern: /[\u4E00-\u9FFF]/ },
+  { code: 'ar', pattern: /[\u0600-\u06FF]/ },
+  { code: 'he', pattern: /[\u0590-\u05FF]/ },
+  { code: 'ru', pattern: /[\u0400-\u04FF]/ },
+  { code: 'el', pattern: /[\u0370-\u03FF]/ },
+  { code: 'hi', pattern: /[\u0900-\u097F]/ },
+  { code: 'th', pattern: /[\u0E00-\u0E7F]/ },
+];
+
+const toDetectedLanguage = (code: string): DetectedLanguage => ({
+  languageCode: code,
+  languageName: LANGUAGES.find(l => l.code === code)?.name || code,
+});
+
+const guessLanguageCode = (text: string): string => {
+  const script = SCRIPT_RANGES.find(({ pattern }) => pattern.test(text));
+  if (script) return script.code;
+
+  const words = text.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  let best = 'en';
+  let bestScore = 0;
+  for (const [code, stopwords] of Object.entries(STOPWORDS)) {
+    const score = words.filter(w => stopwords.includes(w)).length;
+    if (score > bestScore) {
+      best = code;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+async function detectLanguageFromText(text: string, signal?: AbortSignal): Promise<DetectedLanguage> {
+  await delay(SIMULATED_LATENCY_MS, signal);
+  return toDetectedLanguage(guessLanguageCode(text));
+}
+
+async function transcribeAudio(audioBase64: string, mimeType: string, signal?: AbortSignal): Promise<TranscriptionResult> {
+  await delay(SIMULATED_LATENCY_MS, signal);
+  const approxBytes = Math.floor(audioBase64.length * 3 / 4);
+  const sentences = [
+    `This is a local stand-in transcript for a ${approxBytes} byte ${mimeType || 'audio'} recording.`,
+    'No speech recognition was performed.',
+    'Each sentence is given a fixed three second slot.',
+  ];
+  // Two alternating speakers, so the diarization path is exercised as well.
+  const segments = sentences.map((text, index) => ({
+    start: index * 3,
+    end: (index + 1) * 3,
+    text,
+    speaker: `Speaker ${(index % 2) + 1}`,
+  }));
+  return {
+    ...toDetectedLanguage('en'),
+    transcript: joinSegments(segments),
+    segments,
+  };
+}
+
+// "Translates" by tagging the text with the language name and applying the glossary,
+// so terminology handling can be exercised offline.
+const fakeTranslate = (text: string, code: string, glossary?: Glossary) => {
+  const translated = (glossary?.terms || [])
+    .filter(term => term.languageCode === code)
+    .reduce((acc, term) => acc.replace(new RegExp(escapeRegExp(term.source), 'gi'), term.target), text);
+  return `[${toDetectedLanguage(code).languageName}] ${translated}`;
+};
+
+async function translateText(text: string, _sourceLanguage: string, languages: string[], glossary?: Glossary, signal?: AbortSignal): Promise<Record<string, string>> {
+  await delay(SIMULATED_LATENCY_MS, signal);
+  return languages.reduce((acc, code) => {
+    acc[code] = fakeTranslate(text, code, glossary);
+    return acc;
+  }, {} as Record<string, string>);
+}
+
+async function translateSegments(segments: string[], _sourceLanguage: string, languages: string[], glossary?: Glossary, signal?: AbortSignal): Promise<Record<string, string[]>> {
+  await delay(SIMULATED_LATENCY_MS, signal);
+  return languages.reduce((acc, code) => {
+    acc[code] = segments.map(segment => fakeTranslate(segment, code, glossary));
+    return acc;
+  }, {} as Record<string, string[]>);
+}
+
+// Shortens by dropping trailing words and lengthens by repeating them, so the word count moves as asked.
+async function adjustLength(segments: string[], _language: string, lengthRatio: number, signal?: AbortSignal): Promise<string[]> {
+  await delay(SIMULATED_LATENCY_MS, signal);
+  return segments.map(segment => {
+    const words = segment.split(/\s+/).filter(Boolean);
+    const target = Math.max(1, Math.round(words.length * lengthRatio));
+    if (words.length === 0) return segment;
+    return Array.from({ length: target }, (_, i) => words[i % words.length]).join(' ');
+  });
+}
+
+const hashString = (value: string) => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+  return hash;
+};
+
+// Renders one short tone per word, with the pitch derived from the word and the
+// voice name, so that different texts and voices sound different (but repeatable).
+async function synthesizeSpeech(text: string, voice: VoiceSettings, signal?: AbortSignal): Promise<string> {
+  await delay(SIMULATED_LATENCY_MS, signal);
+  const words = text.split(/\s+/).filter(Boolean);
+  const wordSamples = Math.floor(SAMPLE_RATE * 0.25);
+  const gapSamples = Math.floor(SAMPLE_RATE * 0.08);
+  const totalSamples = Math.max(1, words.length) * (wordSamples + gapSamples);
+
+  const voiceOffset = hashString(voice.voiceName) % 120;
+  const pcm = new Int16Array(totalSamples);
+  words.forEach((word, index) => {
+    const frequency = 120 + voiceOffset + (hashString(word) % 220);
+    const offset = index * (wordSamples + gapSamples);
+    for (let i = 0; i < wordSamples; i++) {
+      const envelope = Math.sin(Math.PI * i / wordSamples);
+      pcm[offset + i] = Math.round(Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE) * envelope * 8000);
+    }
+  });
+
+  return uint8ArrayToBase64(new Uint8Array(pcm.buffer));
+}
+
+async function synthesizeDialogue(turns: DialogueTurn[], speakerVoices: Record<string, string>, style?: string, signal?: AbortSignal): Promise<string> {
+  const parts: string[] = [];
+  for (const turn of turns) {
+    parts.push(await synthesizeSpeech(turn.text, { voiceName: speakerVoices[turn.speaker], style }, signal));
+  }
+  return concatBase64Pcm(parts);
+}
+
+export const localProvider: AIProvider = {
+  name: 'local',
+  detectLanguageFromText,
+  transcribeAudio,
+  translateText,
+  translateSegments,
+  adjustLength,
+  synthesizeSpeech,
+  synthesizeDialogue,
+};
@@ -0,0 +1,43 @@
+import type { Project } from '../types';
+import { runRequest, PROJECTS_STORE } from './database';
+
+const withStore = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) =>
+  runRequest(PROJECTS_STORE, mode, run);
+
+export const createProjectId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Newest first.
+export async function listProjects(): Promise<Project[]> {
+  const projects = await withStore<Project[]>('readonly', store => store.getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getProject(id: string): Promise<Project | undefined> {
+  return withStore<Project | undefined>('readonly', store => store.get(id));
+}
+
+export async function saveProject(project: Project): Promise<void> {
+  await withStore('readwrite', store => store.put(project));
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export async function renameProject(id: string, name: string): Promise<void> {
+  const project = await getProject(id);
+  if (!project) throw new Error('Project not found.');
+  await saveProject({ ...project, name, updatedAt: Date.now() });
+}
+
+export async function duplicateProject(id: string): Promise<Project> {
+  const project = await getProject(id);
+  if (!project) throw new Error('Project not found.');
+  const now = Date.now();
+  const copy: Project = { ...project, id: createProjectId(), name: `${project.name} (copy)`, createdAt: now, updatedAt: now };
+  await saveProject(copy);
+  return copy;
+}
@@ -0,0 +1,122 @@
+import type { Glossary, MemoryMatch } from '../types';
+import { runRequest, runTransaction, TRANSLATION_MEMORY_STORE } from './database';
+import { translateSegments } from './geminiService';
+import { normalizeSegment, similarity } from '../utils/textSimilarity';
+
+interface MemoryEntry {
+  id: string;
+  languagePair: string; // "<source code>|<target code>"
+  source: string;
+  target: string;
+  updatedAt: number;
+}
+
+// Fuzzy matches below this similarity are not reused.
+const FUZZY_THRESHOLD = 0.88;
+// Short segments ("Yes.", "Thank you!") differ too much in meaning per character to match fuzzily.
+const FUZZY_MIN_LENGTH = 16;
+
+const pairKey = (sourceLanguage: string, targetLanguage: string) => `${sourceLanguage}|${targetLanguage}`;
+
+async function loadPair(sourceLanguage: string, targetLanguage: string): Promise<MemoryEntry[]> {
+  return runRequest<MemoryEntry[]>(TRANSLATION_MEMORY_STORE, 'readonly',
+    store => store.index('languagePair').getAll(pairKey(sourceLanguage, targetLanguage)));
+}
+
+// Finds the best stored translation for every source segment, or undefined when there is none.
+export async function lookupMemory(sourceLanguage: string, targetLanguage: string, sources: string[]): Promise<Array<MemoryMatch | undefined>> {
+  const entries = await loadPair(sourceLanguage, targetLanguage);
+  if (entries.length === 0) return sources.map(() => undefined);
+
+  const exact = new Map(entries.map(entry => [normalizeSegment(entry.source), entry]));
+  return sources.map((source, index) => {
+    const normalized = normalizeSegment(source);
+    if (!normalized) return undefined;
+
+    const hit = exact.get(normalized);
+    if (hit) return { index, source, target: hit.target, kind: 'exact', score: 1 };
+    if (normalized.length < FUZZY_MIN_LENGTH) return undefined;
+
+    let best: { entry: MemoryEntry; score: number } | undefined;
+    for (const entry of entries) {
+      const candidate = normalizeSegment(entry.source);
+      // Cheap length filter before the quadratic edit distance.
+      if (Math.abs(candidate.length - normalized.length) > normalized.length * (1 - FUZZY_THRESHOLD)) continue;
+      const score = similarity(candidate, normalized);
+      if (score >= FUZZY_THRESHOLD && (!best || score > best.score)) best = { entry, score };
+    }
+    return best ? { index, source, target: best.entry.target, kind: 'fuzzy', score: best.score } : undefined;
+  });
+}
+
+export async function rememberTranslations(sourceLanguage: string, targetLanguage: string, pairs: Array<{ source: string; target: string }>): Promise<void> {
+  const languagePair = pairKey(sourceLanguage, targetLanguage);
+  const now = Date.now();
+  await runTransaction(TRANSLATION_MEMORY_STORE, 'readwrite', store => {
+    pairs
+      .filter(pair => normalizeSegment(pair.source) && pair.target.trim())
+      .forEach(pair => {
+        const entry: MemoryEntry = {
+          id: `${languagePair}|${normalizeSegment(pair.source)}`,
+          languagePair,
+          source: pair.source.trim(),
+          target: pair.target.trim(),
+          updatedAt: now,
+        };
+        store.put(entry);
+      });
+  });
+}
+
+export interface MemoryTranslation {
+  texts: string[]; // one per source segment
+  matches: MemoryMatch[];
+}
+
+// Translates segments, reusing the translation memory where possible. Only the
+// segments without a match in some language are sent to the model, in one request.
+export async function translateSegmentsWithMemory(
+  segments: string[],
+  sourceLanguage: { name: string; code: string },
+  languages: string[],
+  glossary?: Glossary,
+  signal?: AbortSignal,
+): Promise<Record<string, MemoryTranslation>> {
+  const lookups = await Promise.all(languages.map(code =>
+    lookupMemory(sourceLanguage.code, code, segments).catch(error => {
+      console.warn('Translation memory unavailable:', error);
+      return segments.map((): MemoryMatch | undefined => undefined);
+    })));
+
+  const missing = new Set<number>();
+  lookups.forEach(matches => matches.forEach((match, index) => {
+    if (!match && segments[index].trim()) missing.add(index);
+  }));
+  const missingIndexes = Array.from(missing).sort((a, b) => a - b);
+  const languagesToTranslate = languages.filter((_, i) => lookups[i].some((match, index) => !match && segments[index].trim()));
+
+  const fresh = missingIndexes.length > 0 && languagesToTranslate.length > 0
+    ? await translateSegments(missingIndexes.map(i => segments[i]), sourceLanguage.name, languagesToTranslate, glossary, signal)
+    : {};
+
+  const result: Record<string, MemoryTranslation> = {};
+  await Promise.all(languages.map(async (code, langIndex) => {
+    const matches = lookups[langIndex];
+    const translated = fresh[code] || [];
+    const texts = segments.map((segment, index) => {
+      const match = matches[index];
+      if (match) return match.target;
+      if (!segment.trim()) return segment;
+      return translated[missingIndexes.indexOf(index)] || '';
+    });
+    result[code] = { texts, matches: matches.filter((m): m is MemoryMatch => !!m) };
+
+    const newPairs = segments
+      .map((source, index) => ({ source, target: texts[index], isNew: !matches[index] }))
+      .filter(pair => pair.isNew);
+    await rememberTranslations(sourceLanguage.code, code, newPairs).catch(error => {
+      console.warn('Could not update translation memory:', error);
+    });
+  }));
+  return result;
+}
@@ -0,0 +1,25 @@
+import type { QaReport } from '../types';
+import { translateText } from './geminiService';
+import { describeError, isCancellation } from './aiErrors';
+import { buildQaReport } from '../utils/translationQa';
+
+// Back-translates a translation into the source language and checks it against the source.
+// A failed back-translation still yields a report from the checks that do not need it;
+// only cancellation rejects.
+export async function reviewTranslation(
+  sourceText: string,
+  sourceLanguage: { name: string; code: string },
+  translation: { language: string; text: string },
+  signal?: AbortSignal,
+): Promise<QaReport> {
+  try {
+    const result = await translateText(translation.text, translation.language, [sourceLanguage.code], undefined, signal);
+    const backTranslation = result[sourceLanguage.code] ?? Object.values(result)[0];
+    if (typeof backTranslation !== 'string') throw new Error('No back-translation returned.');
+    return buildQaReport(sourceText, translation.text, backTranslation);
+  } catch (error) {
+    if (isCancellation(error)) throw error;
+    console.warn(`Back-translation failed for ${translation.language}:`, error);
+    return buildQaReport(sourceText, translation.text, undefined, describeError(error));
+  }
+}
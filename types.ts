@@ -1,8 +1,202 @@
+export interface TranscriptSegment {
+  start: number; // seconds from the beginning of the source audio
+  end: number;
+  text: string;
+  speaker?: string; // diarization label, e.g. "Speaker 1"
+}
+
+export interface DialogueTurn {
+  speaker: string;
+  text: string;
+}
+
+export interface VoiceSettings {
+  voiceName: string;
+  style?: string; // free-text delivery direction, e.g. "calm, documentary narrator"
+  pauseMs?: number; // silence inserted between sentences; 0 leaves the phrasing to the model
+}
 
 export interface Translation {
   language: string;
   languageCode: string;
   text: string;
+  segments?: TranscriptSegment[];
+  voice?: VoiceSettings;
+  speakerVoices?: Record<string, string>; // speaker label -> voice name, for multi-speaker translations
   audioUrl?: string;
+  rawAudioUrl?: string; // synthesis before mastering and speed changes, kept for re-rendering
+  mastering?: MasteringSettings;
+  masteringReport?: MasteringReport;
+  speakingRate?: number; // playback speed applied by time-stretching after mastering, 1 = as synthesized
   isGeneratingAudio?: boolean;
+  audioProgress?: { current: number; total: number };
+  audioError?: string; // last voiceover failure, cleared on the next attempt
+  glossaryIssues?: GlossaryIssue[];
+  memoryMatches?: MemoryMatch[]; // segments reused from the translation memory
+  machineText?: string; // model output, kept once the text has been edited by hand
+  isAudioStale?: boolean; // the text changed after the voiceover was generated
+  durationFit?: DurationFit; // set when the voiceover was fitted to the source duration
+  qaReport?: QaReport; // cleared whenever the text changes
+  isCheckingQa?: boolean;
+}
+
+// Post-processing applied to every synthesized voiceover, in this order.
+export interface MasteringSettings {
+  trimSilence: boolean; // cut leading and trailing silence
+  loudnessTarget: number | null; // integrated loudness in LUFS, null to keep the level as synthesized
+  fadeInMs: number;
+  fadeOutMs: number;
+  peakCeilingDb: number; // the limiter keeps sample peaks below this, in dBFS
+}
+
+export interface MasteringReport {
+  inputLufs: number | null; // null when the audio is silent
+  outputLufs: number | null;
+  gainDb: number;
+  trimmedSeconds: number;
+  limitedSamples: number;
+  duration: number;
+}
+
+// Music mixed under every language's voiceover in a project.
+export interface MusicBedSettings {
+  enabled: boolean;
+  levelDb: number; // music gain while nobody speaks
+  duckingDb: number; // further reduction while the voiceover speaks
+  // Intro and outro make the mix longer than the voiceover, so a mix of a voiceover
+  // fitted to the source duration runs introSeconds + outroSeconds past it.
+  introSeconds: number; // music alone before the voiceover starts
+  outroSeconds: number; // music after the voiceover ends, fading out
+}
+
+export interface MusicBed {
+  blob: Blob;
+  name: string;
+  settings: MusicBedSettings;
+}
+
+export interface DurationFit {
+  target: number; // seconds, the original clip's duration
+  actual: number; // seconds, the final voiceover's duration
+  stretch: number; // time-stretch factor applied to the audio, 1 for none
+  rewritten: boolean; // the text was shortened or lengthened before synthesis
+}
+
+export interface VoiceoverBatch {
+  total: number;
+  completed: number;
+  failed: number;
+  isRunning: boolean;
+}
+
+// Progress of one chunk of a long recording on the transcribing screen.
+export interface TranscriptionChunkStatus {
+  index: number;
+  start: number; // seconds on the original media's timeline
+  end: number;
+  status: 'pending' | 'running' | 'done' | 'failed';
+  error?: string;
+}
+
+// One utterance in live interpreter mode.
+export interface LiveCaption {
+  id: number;
+  offset: number; // seconds since live mode started
+  original: string;
+  languageName: string;
+  translations: Record<string, string>; // language code -> text
+  error?: string;
+}
+
+// One participant in conversation mode.
+export interface ConversationSide {
+  name: string;
+  languageCode: string;
+  voiceName: string; // speaks this side's words to the other side
+}
+
+export interface ConversationTurn {
+  id: number;
+  side: 'a' | 'b';
+  time: number; // epoch ms when the utterance ended
+  original: string;
+  translation: string;
+  audioUrl?: string;
+  status: 'processing' | 'done' | 'failed';
+  error?: string;
+}
+
+export interface DetectedLanguageInfo {
+  name: string;
+  code: string;
+}
+
+// A translation as persisted: the generated audio is kept as a Blob instead of
+// a session-only object URL, and per-run UI state is dropped.
+export interface StoredTranslation extends Omit<Translation, 'audioUrl' | 'rawAudioUrl' | 'isGeneratingAudio' | 'audioProgress' | 'audioError' | 'isCheckingQa'> {
+  audioBlob?: Blob;
+  rawAudioBlob?: Blob; // synthesis before mastering, so settings can still be changed after a reload
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  sourceMedia?: Blob; // the uploaded or recorded input, if any
+  sourceDuration?: number; // seconds, measured when the media was submitted
+  musicBed?: MusicBed;
+  transcript: string;
+  segments: TranscriptSegment[];
+  detectedLanguage: DetectedLanguageInfo | null;
+  translations: StoredTranslation[];
+}
+
+export interface GlossaryTerm {
+  languageCode: string; // target language the pair applies to
+  source: string;
+  target: string;
+}
+
+// How a term should be spoken in one language, e.g. "SQL" -> "sequel".
+export interface PronunciationEntry {
+  languageCode: string;
+  term: string;
+  spoken: string;
+}
+
+export interface Glossary {
+  terms: GlossaryTerm[];
+  doNotTranslate: string[]; // kept verbatim in every language
+}
+
+export interface GlossaryIssue {
+  term: string;
+  expected: string;
+  kind: 'term' | 'doNotTranslate';
+}
+
+export interface MemoryMatch {
+  index: number; // position of the segment (or sentence) in the source
+  source: string;
+  target: string;
+  kind: 'exact' | 'fuzzy';
+  score: number; // similarity of the stored source to this source, 0..1
+}
+
+export type QaSeverity = 'ok' | 'info' | 'warning' | 'error';
+
+export interface QaIssue {
+  kind: 'number' | 'url' | 'email' | 'entity' | 'length';
+  severity: Exclude<QaSeverity, 'ok'>;
+  message: string;
+}
+
+export interface QaReport {
+  backTranslation?: string; // missing when the back-translation request failed
+  backTranslationError?: string;
+  lengthRatio: number; // translation length / source length, in characters
+  backLengthRatio?: number; // back-translation length / source length
+  issues: QaIssue[];
+  severity: QaSeverity; // worst issue, or 'ok'
 }
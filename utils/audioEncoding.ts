@@ -0,0 +1,200 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { PCM_SAMPLE_RATE } from './audioUtils';
+
+export type AudioExportFormat = 'wav' | 'mp3' | 'opus';
+
+export interface AudioExportSettings {
+    format: AudioExportFormat;
+    bitrateKbps: number; // ignored for WAV
+}
+
+export const AUDIO_EXPORT_FORMATS: Record<AudioExportFormat, { label: string; extension: string; mimeType: string; bitrates: number[] }> = {
+    wav: { label: 'WAV (uncompressed)', extension: 'wav', mimeType: 'audio/wav', bitrates: [] },
+    mp3: { label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg', bitrates: [64, 96, 128] },
+    opus: { label: 'Ogg Opus', extension: 'ogg', mimeType: 'audio/ogg', bitrates: [24, 32, 48, 64] },
+};
+
+export const DEFAULT_EXPORT_SETTINGS: AudioExportSettings = { format: 'wav', bitrateKbps: 96 };
+
+const WAV_HEADER_SIZE = 44;
+const OPUS_SAMPLE_RATE = 48000;
+// Encoder lookahead of libopus at 48 kHz, signalled to decoders as pre-skip.
+const OPUS_PRE_SKIP = 312;
+
+// Reads the 16-bit PCM back out of a WAV produced by createWavFile.
+export async function readWavPcm(wavUrl: string): Promise<Int16Array> {
+    const buffer = await (await fetch(wavUrl)).arrayBuffer();
+    return new Int16Array(buffer.slice(WAV_HEADER_SIZE, WAV_HEADER_SIZE + ((buffer.byteLength - WAV_HEADER_SIZE) & ~1)));
+}
+
+export function encodeMp3(pcm: Int16Array, sampleRate: number, bitrateKbps: number): Blob {
+    const encoder = new Mp3Encoder(1, sampleRate, bitrateKbps);
+    const frames: BlobPart[] = [];
+    // lame works best when fed multiples of its 1152-sample frame size.
+    const blockSize = 1152 * 10;
+    for (let i = 0; i < pcm.length; i += blockSize) {
+        const encoded = encoder.encodeBuffer(pcm.subarray(i, i + blockSize));
+        if (encoded.length > 0) frames.push(encoded as BlobPart);
+    }
+    const tail = encoder.flush();
+    if (tail.length > 0) frames.push(tail as BlobPart);
+    return new Blob(frames, { type: 'audio/mpeg' });
+}
+
+// --- Ogg container -------------------------------------------------------
+
+const OGG_CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let r = i << 24;
+        for (let j = 0; j < 8; j++) {
+            r = (r & 0x80000000) ? ((r << 1) ^ 0x04C11DB7) : (r << 1);
+        }
+        table[i] = r >>> 0;
+    }
+    return table;
+})();
+
+function oggCrc(data: Uint8Array): number {
+    let crc = 0;
+    for (let i = 0; i < data.length; i++) {
+        crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) & 0xff) ^ data[i]]) >>> 0;
+    }
+    return crc;
+}
+
+function buildOggPage(packets: Uint8Array[], granule: number, serial: number, sequence: number, headerType: number) {
+    const lacing: number[] = [];
+    packets.forEach(packet => {
+        let remaining = packet.length;
+        while (remaining >= 255) {
+            lacing.push(255);
+            remaining -= 255;
+        }
+        lacing.push(remaining);
+    });
+    const bodySize = packets.reduce((sum, p) => sum + p.length, 0);
+    const page = new Uint8Array(27 + lacing.length + bodySize);
+    const view = new DataView(page.buffer);
+    page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+    view.setUint8(4, 0); // version
+    view.setUint8(5, headerType);
+    view.setUint32(6, granule % 0x100000000, true);
+    view.setUint32(10, Math.floor(granule / 0x100000000), true);
+    view.setUint32(14, serial, true);
+    view.setUint32(18, sequence, true);
+    view.setUint8(26, lacing.length);
+    page.set(lacing, 27);
+    let offset = 27 + lacing.length;
+    packets.forEach(packet => {
+        page.set(packet, offset);
+        offset += packet.length;
+    });
+    view.setUint32(22, oggCrc(page), true);
+    return page;
+}
+
+function opusHead(inputSampleRate: number): Uint8Array {
+    const head = new Uint8Array(19);
+    const view = new DataView(head.buffer);
+    head.set(new TextEncoder().encode('OpusHead'));
+    view.setUint8(8, 1); // version
+    view.setUint8(9, 1); // channels
+    view.setUint16(10, OPUS_PRE_SKIP, true);
+    view.setUint32(12, inputSampleRate, true);
+    view.setUint16(16, 0, true); // output gain
+    view.setUint8(18, 0); // channel mapping family
+    return head;
+}
+
+function opusTags(): Uint8Array {
+    const vendor = new TextEncoder().encode('translator-voiceover-app');
+    const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+    const view = new DataView(tags.buffer);
+    tags.set(new TextEncoder().encode('OpusTags'));
+    view.setUint32(8, vendor.length, true);
+    tags.set(vendor, 12);
+    view.setUint32(12 + vendor.length, 0, true); // no user comments
+    return tags;
+}
+
+async function resample(pcm: Int16Array, fromRate: number, toRate: number) {
+    const length = Math.ceil(pcm.length * toRate / fromRate);
+    const context = new OfflineAudioContext(1, Math.max(1, length), toRate);
+    const source = context.createBufferSource();
+    const buffer = context.createBuffer(1, Math.max(1, pcm.length), fromRate);
+    const channel = buffer.getChannelData(0);
+    for (let i = 0; i < pcm.length; i++) channel[i] = pcm[i] / 32768;
+    source.buffer = buffer;
+    source.connect(context.destination);
+    source.start();
+    return (await context.startRendering()).getChannelData(0);
+}
+
+// Encodes with the browser's WebCodecs Opus encoder and muxes the packets into Ogg.
+export async function encodeOggOpus(pcm: Int16Array, sampleRate: number, bitrateKbps: number): Promise<Blob> {
+    if (typeof AudioEncoder === 'undefined') {
+        throw new Error('Opus encoding is not supported in this browser.');
+    }
+    const support = await AudioEncoder.isConfigSupported({ codec: 'opus', sampleRate: OPUS_SAMPLE_RATE, numberOfChannels: 1, bitrate: bitrateKbps * 1000 });
+    if (!support.supported) {
+        throw new Error('Opus encoding is not supported in this browser.');
+    }
+
+    const samples = await resample(pcm, sampleRate, OPUS_SAMPLE_RATE);
+    const packets: Array<{ data: Uint8Array; samples: number }> = [];
+    let encoderError: unknown = null;
+    const encoder = new AudioEncoder({
+        output: chunk => {
+            const data = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(data);
+            packets.push({ data, samples: Math.round((chunk.duration || 20000) * OPUS_SAMPLE_RATE / 1e6) });
+        },
+        error: error => { encoderError = error; },
+    });
+    encoder.configure({ codec: 'opus', sampleRate: OPUS_SAMPLE_RATE, numberOfChannels: 1, bitrate: bitrateKbps * 1000 });
+    encoder.encode(new AudioData({
+        format: 'f32',
+        sampleRate: OPUS_SAMPLE_RATE,
+        numberOfFrames: samples.length,
+        numberOfChannels: 1,
+        timestamp: 0,
+        data: samples,
+    }));
+    await encoder.flush();
+    encoder.close();
+    if (encoderError) throw encoderError;
+
+    const serial = Math.floor(Math.random() * 0xffffffff);
+    const pages: BlobPart[] = [
+        buildOggPage([opusHead(sampleRate)], 0, serial, 0, 0x02),
+        buildOggPage([opusTags()], 0, serial, 1, 0x00),
+    ];
+
+    // Pack roughly one second of audio per page.
+    const totalSamples = samples.length + OPUS_PRE_SKIP;
+    let granule = OPUS_PRE_SKIP;
+    let pagePackets: Uint8Array[] = [];
+    for (let i = 0; i < packets.length; i++) {
+        pagePackets.push(packets[i].data);
+        granule += packets[i].samples;
+        const isLast = i === packets.length - 1;
+        if (pagePackets.length === 50 || isLast) {
+            pages.push(buildOggPage(pagePackets, isLast ? totalSamples : granule, serial, pages.length, isLast ? 0x04 : 0x00));
+            pagePackets = [];
+        }
+    }
+
+    return new Blob(pages, { type: 'audio/ogg' });
+}
+
+// Produces the voiceover in the requested format from the WAV created at generation time.
+export async function exportAudio(wavUrl: string, settings: AudioExportSettings): Promise<Blob> {
+    if (settings.format === 'wav') {
+        return (await fetch(wavUrl)).blob();
+    }
+    const pcm = await readWavPcm(wavUrl);
+    return settings.format === 'mp3'
+        ? encodeMp3(pcm, PCM_SAMPLE_RATE, settings.bitrateKbps)
+        : encodeOggOpus(pcm, PCM_SAMPLE_RATE, settings.bitrateKbps);
+}
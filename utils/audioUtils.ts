@@ -1,3 +1,7 @@
+import type { MasteringReport, MasteringSettings, MusicBedSettings } from '../types';
+import { MAX_NORMALIZATION_GAIN_DB } from '../constants';
+import { encodeMp3, encodeOggOpus, readWavPcm } from './audioEncoding';
+
 
 export function fileToBase64(file: File): Promise<string> {
     return new Promise((resolve, reject) => {
@@ -23,15 +27,46 @@ function base64ToUint8Array(base64: string): Uint8Array {
     return bytes;
 }
 
+export function uint8ArrayToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+}
+
+export const PCM_SAMPLE_RATE = 24000;
+
+// Joins 16-bit mono PCM chunks, inserting `silenceMs` of silence between them. An array
+// gives each gap its own length: `silenceMs[i]` follows chunk i.
+export function concatBase64Pcm(chunks: string[], silenceMs: number | number[] = 0): string {
+    const parts = chunks.map(base64ToUint8Array);
+    // Two bytes per sample; keep each gap sample-aligned.
+    const gapBytes = parts.map((_, index) => {
+        if (index === 0) return 0;
+        const ms = Array.isArray(silenceMs) ? silenceMs[index - 1] ?? 0 : silenceMs;
+        return Math.round(PCM_SAMPLE_RATE * ms / 1000) * 2;
+    });
+    const totalSize = parts.reduce((sum, part, index) => sum + part.length + gapBytes[index], 0);
+    const joined = new Uint8Array(totalSize); // zero-filled, i.e. silent
+    let offset = 0;
+    parts.forEach((part, index) => {
+        offset += gapBytes[index];
+        joined.set(part, offset);
+        offset += part.length;
+    });
+    return uint8ArrayToBase64(joined);
+}
+
 function writeString(view: DataView, offset: number, string: string) {
     for (let i = 0; i < string.length; i++) {
         view.setUint8(offset + i, string.charCodeAt(i));
     }
 }
 
-export function createWavFile(base64Pcm: string): string {
-    const pcmData = base64ToUint8Array(base64Pcm);
-    const sampleRate = 24000;
+// Wraps 16-bit mono PCM in a WAV container.
+export function encodeWav(pcmData: Uint8Array, sampleRate = PCM_SAMPLE_RATE): Blob {
     const numChannels = 1;
     const bitsPerSample = 16;
 
@@ -59,10 +94,445 @@ export function createWavFile(base64Pcm: string): string {
     view.setUint32(40, dataSize, true);
 
     // Write PCM data
-    for (let i = 0; i < dataSize; i++) {
-        view.setUint8(44 + i, pcmData[i]);
+    new Uint8Array(buffer, 44).set(pcmData);
+
+    return new Blob([view], { type: 'audio/wav' });
+}
+
+export function createWavFile(base64Pcm: string): string {
+    return URL.createObjectURL(encodeWav(base64ToUint8Array(base64Pcm)));
+}
+
+// Pitch-preserving time stretch (WSOLA). `factor` is output length / input length:
+// above 1 slows the speech down, below 1 speeds it up.
+export function timeStretchPcm(input: Int16Array, factor: number, sampleRate = PCM_SAMPLE_RATE): Int16Array {
+    const frameSize = Math.round(sampleRate * 0.03);
+    const hopOut = Math.floor(frameSize / 2);
+    const hopIn = hopOut / factor;
+    const searchRadius = Math.round(sampleRate * 0.006);
+    const outputLength = Math.round(input.length * factor);
+    if (input.length < frameSize * 2 || Math.abs(factor - 1) < 0.001) return input.slice();
+
+    const source = Float32Array.from(input, s => s / 32768);
+    const window = Float32Array.from({ length: frameSize }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameSize));
+    const output = new Float32Array(outputLength + frameSize);
+    const weights = new Float32Array(outputLength + frameSize);
+    const maxStart = source.length - frameSize;
+
+    let previousStart = 0;
+    for (let frame = 0, outPos = 0; outPos < outputLength; frame++, outPos += hopOut) {
+        const nominal = Math.min(maxStart, Math.round(frame * hopIn));
+        let start = nominal;
+        if (frame > 0) {
+            // Pick the frame start near the nominal position whose opening best continues
+            // the previous frame, so overlapping frames add up in phase.
+            const natural = Math.min(maxStart, previousStart + hopOut);
+            let bestScore = -Infinity;
+            for (let candidate = Math.max(0, nominal - searchRadius); candidate <= Math.min(maxStart, nominal + searchRadius); candidate++) {
+                let score = 0;
+                for (let i = 0; i < hopOut; i += 2) score += source[natural + i] * source[candidate + i];
+                if (score > bestScore) {
+                    bestScore = score;
+                    start = candidate;
+                }
+            }
+        }
+        for (let i = 0; i < frameSize; i++) {
+            output[outPos + i] += source[start + i] * window[i];
+            weights[outPos + i] += window[i];
+        }
+        previousStart = start;
+    }
+
+    const result = new Int16Array(outputLength);
+    for (let i = 0; i < outputLength; i++) {
+        const sample = weights[i] > 1e-3 ? output[i] / weights[i] : output[i];
+        result[i] = Math.max(-32768, Math.min(32767, Math.round(sample * 32768)));
+    }
+    return result;
+}
+
+// Speech recognition gains nothing above 16 kHz mono.
+export const SPEECH_SAMPLE_RATE = 16000;
+const COMPACT_BITRATE_KBPS = 24;
+const SILENCE_THRESHOLD_DB = -45;
+const SILENCE_WINDOW_SECONDS = 0.02;
+// Kept around the detected speech so word onsets and tails are not clipped.
+const SILENCE_PADDING_SECONDS = 0.25;
+
+export function isVideoFile(blob: Blob): boolean {
+    return blob.type.startsWith('video/');
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+    signature.every((byte, i) => bytes[offset + i] === byte);
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+
+// Identifies the container from its leading bytes, ignoring the declared MIME type.
+// Returns null for anything that is not a supported audio or video format.
+export async function sniffMediaType(blob: Blob): Promise<string | null> {
+    const bytes = new Uint8Array(await blob.slice(0, 16).arrayBuffer());
+    if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WAVE'), 8)) return 'audio/wav';
+    if (startsWith(bytes, ascii('OggS'))) return 'audio/ogg';
+    if (startsWith(bytes, ascii('fLaC'))) return 'audio/flac';
+    if (startsWith(bytes, ascii('FORM')) && startsWith(bytes, ascii('AIFF'), 8)) return 'audio/aiff';
+    if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return isVideoFile(blob) ? 'video/webm' : 'audio/webm';
+    if (startsWith(bytes, ascii('ftyp'), 4)) return startsWith(bytes, ascii('M4A'), 8) || !isVideoFile(blob) ? 'audio/mp4' : 'video/mp4';
+    if (startsWith(bytes, ascii('ID3')) || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) return 'audio/mpeg';
+    return null;
+}
+
+export function floatToPcm16(samples: Float32Array): Int16Array {
+    return Int16Array.from(samples, sample => Math.max(-32768, Math.min(32767, Math.round(sample * 32767))));
+}
+
+export function pcm16ToFloat(pcm: Int16Array): Float32Array {
+    return Float32Array.from(pcm, sample => sample / 32768);
+}
+
+// Loudest absolute sample in each of `count` equal slices, for drawing a waveform overview.
+export function computePeaks(samples: Float32Array, count: number): number[] {
+    const size = samples.length / count;
+    return Array.from({ length: count }, (_, i) => {
+        let peak = 0;
+        for (let j = Math.floor(i * size); j < Math.floor((i + 1) * size); j++) {
+            peak = Math.max(peak, Math.abs(samples[j]));
+        }
+        return peak;
+    });
+}
+
+// Picks a recording format the browser supports, preferring MP4 for Safari/iOS.
+export function getRecordingMimeType(): string {
+    const types = ['audio/mp4', 'audio/webm;codecs=opus', 'audio/webm', 'audio/ogg', 'audio/wav'];
+    return types.find(type => MediaRecorder.isTypeSupported(type)) || '';
+}
+
+// Decodes the first audio track of the media and renders it as mono at `sampleRate`.
+export async function decodeToMono(media: Blob, sampleRate: number): Promise<{ samples: Float32Array; duration: number }> {
+    let decoded: AudioBuffer;
+    try {
+        decoded = await new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(await media.arrayBuffer());
+    } catch (error) {
+        console.error('Error decoding media:', error);
+        throw new Error('Could not read an audio track from this file. It may be corrupt, have no sound, or use an unsupported codec.');
+    }
+    // Rendering through a mono context at the target rate downmixes and resamples in one step.
+    const context = new OfflineAudioContext(1, Math.max(1, Math.ceil(decoded.duration * sampleRate)), sampleRate);
+    const source = context.createBufferSource();
+    source.buffer = decoded;
+    source.connect(context.destination);
+    source.start();
+    return { samples: (await context.startRendering()).getChannelData(0), duration: decoded.duration };
+}
+
+// Sample range between the first and last window louder than the silence threshold.
+function findSpeechBounds(samples: Float32Array, sampleRate: number): { start: number; end: number } | null {
+    const windowSize = Math.round(sampleRate * SILENCE_WINDOW_SECONDS);
+    const threshold = Math.pow(10, SILENCE_THRESHOLD_DB / 20);
+    let first = -1;
+    let last = -1;
+    for (let offset = 0; offset < samples.length; offset += windowSize) {
+        const end = Math.min(samples.length, offset + windowSize);
+        let energy = 0;
+        for (let i = offset; i < end; i++) energy += samples[i] * samples[i];
+        if (Math.sqrt(energy / (end - offset)) >= threshold) {
+            if (first === -1) first = offset;
+            last = end;
+        }
+    }
+    if (first === -1) return null;
+    const padding = Math.round(sampleRate * SILENCE_PADDING_SECONDS);
+    return { start: Math.max(0, first - padding), end: Math.min(samples.length, last + padding) };
+}
+
+// Quietest window within `radius` samples of `around`, as a sample index: the place to cut.
+function findQuietestPoint(samples: Float32Array, around: number, radius: number, windowSize: number): number {
+    let best = around;
+    let bestEnergy = Infinity;
+    const from = Math.max(windowSize, around - radius);
+    const to = Math.min(samples.length - windowSize, around + radius);
+    for (let offset = from; offset < to; offset += windowSize) {
+        let energy = 0;
+        for (let i = offset; i < offset + windowSize; i++) energy += samples[i] * samples[i];
+        if (energy < bestEnergy) {
+            bestEnergy = energy;
+            best = offset + Math.floor(windowSize / 2);
+        }
+    }
+    return best;
+}
+
+export interface AudioChunk {
+    blob: Blob;
+    // Seconds on the original media's timeline. [start, end) is the audio in the blob;
+    // [ownStart, ownEnd) is the part this chunk is authoritative for when merging,
+    // the rest is overlap shared with its neighbours.
+    start: number;
+    end: number;
+    ownStart: number;
+    ownEnd: number;
+}
+
+export interface PreprocessedAudio {
+    chunks: AudioChunk[]; // a single chunk unless the recording is long, none if it is silent
+    originalSize: number;
+    uploadSize: number;
+    duration: number; // seconds, of the original media
+    trimmedSeconds: number; // total silence removed
+}
+
+export interface PreprocessOptions {
+    // Recordings longer than this are split at quiet points into chunks of about this length.
+    maxChunkSeconds: number;
+    overlapSeconds: number;
+}
+
+const encodeCompact = (pcm: Int16Array) => encodeOggOpus(pcm, SPEECH_SAMPLE_RATE, COMPACT_BITRATE_KBPS)
+    .catch(() => encodeMp3(pcm, SPEECH_SAMPLE_RATE, COMPACT_BITRATE_KBPS));
+
+// Shrinks a recording before upload: validated by content, decoded, downmixed to mono,
+// resampled to 16 kHz, trimmed of leading and trailing silence and re-encoded as
+// low-bitrate Opus (MP3 where the browser has no Opus encoder). Long recordings are
+// split at silence into overlapping chunks that can be transcribed separately.
+export async function preprocessAudio(media: Blob, options: PreprocessOptions): Promise<PreprocessedAudio> {
+    if (!(await sniffMediaType(media))) {
+        throw new Error('Unsupported or corrupt file. Please upload MP3, WAV, OGG, FLAC, M4A, or MP4/WebM video.');
+    }
+    const { samples, duration } = await decodeToMono(media, SPEECH_SAMPLE_RATE);
+    const bounds = findSpeechBounds(samples, SPEECH_SAMPLE_RATE);
+    if (!bounds) {
+        return { chunks: [], originalSize: media.size, uploadSize: 0, duration, trimmedSeconds: duration };
+    }
+
+    const rate = SPEECH_SAMPLE_RATE;
+    const chunkSize = Math.round(options.maxChunkSeconds * rate);
+    const overlap = Math.round(options.overlapSeconds * rate);
+    const cuts = [bounds.start];
+    while (bounds.end - cuts[cuts.length - 1] > chunkSize * 1.2) {
+        const nominal = cuts[cuts.length - 1] + chunkSize;
+        cuts.push(findQuietestPoint(samples, nominal, Math.round(chunkSize * 0.1), Math.round(rate * SILENCE_WINDOW_SECONDS)));
+    }
+    cuts.push(bounds.end);
+
+    const chunks: AudioChunk[] = [];
+    for (let i = 0; i < cuts.length - 1; i++) {
+        const start = i === 0 ? cuts[i] : Math.max(bounds.start, cuts[i] - overlap);
+        const end = i === cuts.length - 2 ? cuts[i + 1] : Math.min(bounds.end, cuts[i + 1] + overlap);
+        const pcm = floatToPcm16(samples.subarray(start, end));
+        chunks.push({
+            blob: await encodeCompact(pcm),
+            start: start / rate,
+            end: end / rate,
+            ownStart: cuts[i] / rate,
+            ownEnd: cuts[i + 1] / rate,
+        });
+    }
+
+    return {
+        chunks,
+        originalSize: media.size,
+        uploadSize: chunks.reduce((sum, chunk) => sum + chunk.blob.size, 0),
+        duration,
+        trimmedSeconds: (samples.length - (bounds.end - bounds.start)) / rate,
+    };
+}
+
+// --- Voiceover mastering -------------------------------------------------
+
+// Second-order IIR section, coefficients normalized so a0 = 1.
+function biquad(input: Float32Array, b0: number, b1: number, b2: number, a1: number, a2: number): Float32Array {
+    const output = new Float32Array(input.length);
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    for (let i = 0; i < input.length; i++) {
+        const x = input[i];
+        const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+        output[i] = y;
+        x2 = x1; x1 = x;
+        y2 = y1; y1 = y;
+    }
+    return output;
+}
+
+// The K-weighting of ITU-R BS.1770: a high shelf for the head's acoustic effect followed
+// by a high-pass, re-derived for any sample rate as libebur128 does.
+function kWeight(samples: Float32Array, sampleRate: number): Float32Array {
+    let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+    let Q = 0.7071752369554196;
+    const Vh = Math.pow(10, 3.999843853973347 / 20);
+    const Vb = Math.pow(Vh, 0.4996667741545416);
+    let a0 = 1 + K / Q + K * K;
+    const shelved = biquad(
+        samples,
+        (Vh + Vb * K / Q + K * K) / a0,
+        2 * (K * K - Vh) / a0,
+        (Vh - Vb * K / Q + K * K) / a0,
+        2 * (K * K - 1) / a0,
+        (1 - K / Q + K * K) / a0,
+    );
+
+    K = Math.tan(Math.PI * 38.13547087613982 / sampleRate);
+    Q = 0.5003270373253953;
+    a0 = 1 + K / Q + K * K;
+    return biquad(shelved, 1, -2, 1, 2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0);
+}
+
+// Integrated loudness in LUFS (ITU-R BS.1770, mono): mean K-weighted power of 400 ms
+// blocks, gated at -70 LUFS and then 10 LU below the ungated level. Null for silence.
+export function measureLoudness(samples: Float32Array, sampleRate: number): number | null {
+    const weighted = kWeight(samples, sampleRate);
+    const energy = new Float64Array(weighted.length + 1);
+    for (let i = 0; i < weighted.length; i++) energy[i + 1] = energy[i] + weighted[i] * weighted[i];
+
+    const blockSize = Math.min(weighted.length, Math.round(sampleRate * 0.4));
+    if (blockSize === 0) return null;
+    const hop = Math.max(1, Math.round(blockSize / 4));
+    const powers: number[] = [];
+    for (let start = 0; start + blockSize <= weighted.length; start += hop) {
+        powers.push((energy[start + blockSize] - energy[start]) / blockSize);
+    }
+
+    const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+    const audible = powers.filter(p => p > 0 && toLufs(p) > -70);
+    if (audible.length === 0) return null;
+    const relativeGate = toLufs(mean(audible)) - 10;
+    return toLufs(mean(audible.filter(p => toLufs(p) > relativeGate)));
+}
+
+function applyFades(samples: Float32Array, sampleRate: number, fadeInMs: number, fadeOutMs: number) {
+    const fadeIn = Math.min(samples.length, Math.round(sampleRate * fadeInMs / 1000));
+    const fadeOut = Math.min(samples.length, Math.round(sampleRate * fadeOutMs / 1000));
+    for (let i = 0; i < fadeIn; i++) samples[i] *= i / fadeIn;
+    for (let i = 0; i < fadeOut; i++) samples[samples.length - 1 - i] *= i / fadeOut;
+}
+
+const LIMITER_LOOKAHEAD_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.05;
+
+// Look-ahead peak limiter: gain ramps down ahead of each peak that would exceed the
+// ceiling and recovers over the release time. Returns how many samples were reduced.
+function limitPeaks(samples: Float32Array, sampleRate: number, ceilingDb: number): number {
+    const ceiling = Math.pow(10, ceilingDb / 20);
+    const gain = new Float32Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+        const peak = Math.abs(samples[i]);
+        gain[i] = peak > ceiling ? ceiling / peak : 1;
     }
-    
-    const blob = new Blob([view], { type: 'audio/wav' });
-    return URL.createObjectURL(blob);
+    // Backwards for the attack ramp, then forwards for the release: both only lower the
+    // gain, so every sample stays under the ceiling.
+    const attackStep = 1 / Math.max(1, Math.round(sampleRate * LIMITER_LOOKAHEAD_SECONDS));
+    for (let i = samples.length - 2; i >= 0; i--) gain[i] = Math.min(gain[i], gain[i + 1] + attackStep);
+    const releaseStep = 1 / Math.max(1, Math.round(sampleRate * LIMITER_RELEASE_SECONDS));
+    for (let i = 1; i < samples.length; i++) gain[i] = Math.min(gain[i], gain[i - 1] + releaseStep);
+
+    let limited = 0;
+    for (let i = 0; i < samples.length; i++) {
+        if (gain[i] < 1) limited++;
+        samples[i] *= gain[i];
+    }
+    return limited;
+}
+
+// Runs the mastering chain: silence trim, loudness normalization, fades, peak limiter.
+export function masterPcm(input: Float32Array, sampleRate: number, settings: MasteringSettings): { samples: Float32Array; report: MasteringReport } {
+    const bounds = settings.trimSilence ? findSpeechBounds(input, sampleRate) : null;
+    const samples = bounds ? input.slice(bounds.start, bounds.end) : input.slice();
+
+    const inputLufs = measureLoudness(samples, sampleRate);
+    const gainDb = settings.loudnessTarget !== null && inputLufs !== null
+        ? Math.min(MAX_NORMALIZATION_GAIN_DB, settings.loudnessTarget - inputLufs)
+        : 0;
+    const gain = Math.pow(10, gainDb / 20);
+    for (let i = 0; i < samples.length; i++) samples[i] *= gain;
+
+    applyFades(samples, sampleRate, settings.fadeInMs, settings.fadeOutMs);
+    const limitedSamples = limitPeaks(samples, sampleRate, settings.peakCeilingDb);
+
+    return {
+        samples,
+        report: {
+            inputLufs,
+            outputLufs: measureLoudness(samples, sampleRate),
+            gainDb,
+            trimmedSeconds: (input.length - samples.length) / sampleRate,
+            limitedSamples,
+            duration: samples.length / sampleRate,
+        },
+    };
+}
+
+// Masters a synthesized voiceover WAV into a new one; the input URL is left untouched.
+export async function masterVoiceover(wavUrl: string, settings: MasteringSettings): Promise<{ audioUrl: string; report: MasteringReport }> {
+    const { samples, report } = masterPcm(pcm16ToFloat(await readWavPcm(wavUrl)), PCM_SAMPLE_RATE, settings);
+    const pcm = floatToPcm16(samples);
+    return { audioUrl: URL.createObjectURL(encodeWav(new Uint8Array(pcm.buffer))), report };
+}
+
+// --- Music bed -----------------------------------------------------------
+
+// The music starts ducking this far ahead of speech and recovers over the release time.
+const DUCKING_ATTACK_SECONDS = 0.15;
+const DUCKING_RELEASE_SECONDS = 0.6;
+const MUSIC_FADE_IN_SECONDS = 0.5;
+const MIX_PEAK_CEILING_DB = -1;
+
+// Decoding a long track takes a while, and the same track is mixed under every language.
+const decodedMusic = new WeakMap<Blob, Promise<Float32Array>>();
+
+function decodeMusic(music: Blob): Promise<Float32Array> {
+    let decoded = decodedMusic.get(music);
+    if (!decoded) {
+        decoded = decodeToMono(music, PCM_SAMPLE_RATE).then(result => result.samples);
+        decoded.catch(() => decodedMusic.delete(music));
+        decodedMusic.set(music, decoded);
+    }
+    return decoded;
+}
+
+// Mixes a voiceover over a music bed. The music plays alone for the intro, ducks while
+// speech is present, and fades out over the outro; a track shorter than the mix loops.
+export async function mixWithMusicBed(voiceWavUrl: string, music: Blob, settings: MusicBedSettings): Promise<Blob> {
+    const rate = PCM_SAMPLE_RATE;
+    const bed = await decodeMusic(music);
+    const voice = pcm16ToFloat(await readWavPcm(voiceWavUrl));
+    const intro = Math.round(settings.introSeconds * rate);
+    const outro = Math.round(settings.outroSeconds * rate);
+    const output = new Float32Array(intro + voice.length + outro);
+    output.set(voice, intro);
+
+    // Speech presence per window on the mix timeline, widened ahead by the attack time.
+    const windowSize = Math.round(rate * SILENCE_WINDOW_SECONDS);
+    const threshold = Math.pow(10, SILENCE_THRESHOLD_DB / 20);
+    const windows = Math.ceil(output.length / windowSize);
+    const speaking = new Uint8Array(windows);
+    const lookahead = Math.ceil(DUCKING_ATTACK_SECONDS / SILENCE_WINDOW_SECONDS);
+    for (let w = 0; w < windows; w++) {
+        const start = w * windowSize;
+        const end = Math.min(output.length, start + windowSize);
+        let energy = 0;
+        for (let i = start; i < end; i++) energy += output[i] * output[i];
+        if (Math.sqrt(energy / (end - start)) >= threshold) {
+            speaking.fill(1, Math.max(0, w - lookahead), w + 1);
+        }
+    }
+
+    const level = Math.pow(10, settings.levelDb / 20);
+    const duckedGain = Math.pow(10, settings.duckingDb / 20);
+    const attackStep = 1 / (DUCKING_ATTACK_SECONDS * rate);
+    const releaseStep = 1 / (DUCKING_RELEASE_SECONDS * rate);
+    const fadeIn = Math.round(MUSIC_FADE_IN_SECONDS * rate);
+    const fadeOut = Math.max(outro, fadeIn);
+    let ducking = 0;
+    for (let i = 0; i < output.length && bed.length > 0; i++) {
+        const target = speaking[Math.floor(i / windowSize)];
+        ducking = target > ducking ? Math.min(target, ducking + attackStep) : Math.max(target, ducking - releaseStep);
+        let gain = level * (1 - ducking * (1 - duckedGain));
+        if (i < fadeIn) gain *= i / fadeIn;
+        if (i >= output.length - fadeOut) gain *= (output.length - i) / fadeOut;
+        output[i] += bed[i % bed.length] * gain;
+    }
+
+    limitPeaks(output, rate, MIX_PEAK_CEILING_DB);
+    return encodeWav(new Uint8Array(floatToPcm16(output).buffer));
 }
@@ -0,0 +1,21 @@
+import type { ConversationSide, ConversationTurn } from '../types';
+import { LANGUAGES } from '../constants';
+
+const languageName = (code: string) => LANGUAGES.find(l => l.code === code)?.name || code;
+
+// Plain-text log of a conversation with every turn in both languages.
+export function formatConversationTranscript(turns: ConversationTurn[], sides: Record<'a' | 'b', ConversationSide>): string {
+    const header = `Conversation: ${sides.a.name} (${languageName(sides.a.languageCode)}) and ${sides.b.name} (${languageName(sides.b.languageCode)})`;
+    const lines = turns
+        .filter(turn => turn.status === 'done')
+        .map(turn => {
+            const speaker = sides[turn.side];
+            const listener = sides[turn.side === 'a' ? 'b' : 'a'];
+            const time = new Date(turn.time).toLocaleTimeString();
+            return [
+                `[${time}] ${speaker.name} (${languageName(speaker.languageCode)}): ${turn.original}`,
+                `    ${languageName(listener.languageCode)}: ${turn.translation}`,
+            ].join('\n');
+        });
+    return [header, ...lines].join('\n\n') + '\n';
+}
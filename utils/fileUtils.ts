@@ -0,0 +1,40 @@
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+    'audio/wav': 'wav',
+    'audio/x-wav': 'wav',
+    'audio/mpeg': 'mp3',
+    'audio/mp4': 'm4a',
+    'audio/x-m4a': 'm4a',
+    'audio/ogg': 'ogg',
+    'audio/webm': 'webm',
+    'video/mp4': 'mp4',
+    'video/webm': 'webm',
+};
+
+export function extensionForMimeType(mimeType: string): string {
+    return MIME_EXTENSIONS[mimeType.split(';')[0].trim().toLowerCase()] || 'bin';
+}
+
+export function mimeTypeForExtension(extension: string): string {
+    const match = Object.entries(MIME_EXTENSIONS).find(([, ext]) => ext === extension.toLowerCase());
+    return match ? match[0] : 'application/octet-stream';
+}
+
+// Turns arbitrary text into something safe to use as a file name.
+export function safeFileName(name: string): string {
+    return name.replace(/[\\/:*?"<>|]+/g, '_').replace(/\s+/g, ' ').trim().slice(0, 80) || 'project';
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,86 @@
+import type { Glossary, GlossaryIssue, GlossaryTerm } from '../types';
+
+const STORAGE_KEY = 'glossary';
+
+export const EMPTY_GLOSSARY: Glossary = { terms: [], doNotTranslate: [] };
+
+export function loadGlossary(): Glossary {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return EMPTY_GLOSSARY;
+        const parsed = JSON.parse(raw);
+        return {
+            terms: Array.isArray(parsed.terms) ? parsed.terms : [],
+            doNotTranslate: Array.isArray(parsed.doNotTranslate) ? parsed.doNotTranslate : [],
+        };
+    } catch (error) {
+        console.warn('Could not read glossary:', error);
+        return EMPTY_GLOSSARY;
+    }
+}
+
+export function saveGlossary(glossary: Glossary) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(glossary));
+    } catch (error) {
+        console.warn('Could not save glossary:', error);
+    }
+}
+
+export const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word, case-insensitive match that also works for non-Latin scripts.
+export function containsTerm(text: string, term: string): boolean {
+    if (!term.trim()) return false;
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term.trim())}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+// Only the entries that matter for this text and these target languages.
+export function relevantGlossary(glossary: Glossary, sourceText: string, languages: string[]): Glossary {
+    return {
+        terms: glossary.terms.filter(t => languages.includes(t.languageCode) && containsTerm(sourceText, t.source)),
+        doNotTranslate: glossary.doNotTranslate.filter(term => containsTerm(sourceText, term)),
+    };
+}
+
+export function isGlossaryEmpty(glossary: Glossary): boolean {
+    return glossary.terms.length === 0 && glossary.doNotTranslate.length === 0;
+}
+
+// Prompt section listing the required renderings, grouped by target language.
+export function formatGlossaryForPrompt(glossary: Glossary): string {
+    if (isGlossaryEmpty(glossary)) return '';
+    const lines: string[] = ['Terminology rules (mandatory):'];
+    const byLanguage = glossary.terms.reduce((acc, term) => {
+        (acc[term.languageCode] ||= []).push(term);
+        return acc;
+    }, {} as Record<string, GlossaryTerm[]>);
+    Object.entries(byLanguage).forEach(([code, terms]) => {
+        lines.push(`- For "${code}", translate: ${terms.map(t => `"${t.source}" as "${t.target}"`).join('; ')}.`);
+    });
+    if (glossary.doNotTranslate.length > 0) {
+        lines.push(`- Never translate, transliterate or inflect these terms; copy them exactly: ${glossary.doNotTranslate.map(t => `"${t}"`).join(', ')}.`);
+    }
+    return lines.join('\n');
+}
+
+// Flags every glossary entry that applies to the source text but was not honoured in the translation.
+export function checkGlossary(sourceText: string, translatedText: string, languageCode: string, glossary: Glossary): GlossaryIssue[] {
+    const issues: GlossaryIssue[] = [];
+    glossary.terms
+        .filter(t => t.languageCode === languageCode && containsTerm(sourceText, t.source))
+        .forEach(t => {
+            if (!containsTerm(translatedText, t.target)) {
+                issues.push({ term: t.source, expected: t.target, kind: 'term' });
+            }
+        });
+    glossary.doNotTranslate
+        .filter(term => containsTerm(sourceText, term))
+        .forEach(term => {
+            // Do-not-translate terms must survive with their original casing too.
+            if (!translatedText.includes(term.trim())) {
+                issues.push({ term, expected: term, kind: 'doNotTranslate' });
+            }
+        });
+    return issues;
+}
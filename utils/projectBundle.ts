@@ -0,0 +1,140 @@
+import { zip, unzip } from 'fflate';
+import type { Zippable } from 'fflate';
+import type { MusicBedSettings, Project, StoredTranslation } from '../types';
+import { extensionForMimeType, mimeTypeForExtension } from './fileUtils';
+import { stripSpeechMarkup } from './speechMarkup';
+import { formatSrt } from './subtitleUtils';
+
+// Bumped whenever the manifest layout changes in a way older readers cannot handle.
+const BUNDLE_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+
+interface BundleManifest {
+    format: 'translator-voiceover-project';
+    version: number;
+    exportedAt: string;
+    name: string;
+    createdAt: string;
+    sourceLanguage: { name: string; code: string } | null;
+    sourceMedia?: { file: string; mimeType: string; duration?: number };
+    musicBed?: { file: string; mimeType: string; name: string; settings: MusicBedSettings };
+    transcript: { file: string; subtitles?: string; segments: Project['segments'] };
+    translations: Array<Omit<StoredTranslation, 'audioBlob' | 'rawAudioBlob' | 'text'> & { textFile: string; sourceFile?: string; audioFile?: string; rawAudioFile?: string }>;
+}
+
+const encodeText = (text: string) => new TextEncoder().encode(text);
+const decodeText = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+const blobBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+export async function exportProjectBundle(project: Project): Promise<Blob> {
+    const files: Zippable = {};
+    const manifest: BundleManifest = {
+        format: 'translator-voiceover-project',
+        version: BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        name: project.name,
+        createdAt: new Date(project.createdAt).toISOString(),
+        sourceLanguage: project.detectedLanguage,
+        transcript: { file: 'transcript.txt', segments: project.segments },
+        translations: [],
+    };
+
+    files['transcript.txt'] = encodeText(project.transcript);
+    if (project.segments.length > 0) {
+        files['transcript.srt'] = encodeText(formatSrt(project.segments));
+        manifest.transcript.subtitles = 'transcript.srt';
+    }
+
+    if (project.sourceMedia) {
+        const file = `source/original.${extensionForMimeType(project.sourceMedia.type)}`;
+        // Already-compressed media gains nothing from deflate.
+        files[file] = [await blobBytes(project.sourceMedia), { level: 0 }];
+        manifest.sourceMedia = { file, mimeType: project.sourceMedia.type, duration: project.sourceDuration };
+    }
+
+    if (project.musicBed) {
+        const { blob, name, settings } = project.musicBed;
+        const file = `music/background.${extensionForMimeType(blob.type)}`;
+        files[file] = [await blobBytes(blob), { level: 0 }];
+        manifest.musicBed = { file, mimeType: blob.type, name, settings };
+    }
+
+    for (const { audioBlob, rawAudioBlob, text, ...translation } of project.translations) {
+        // The .txt is the readable script; speech markup, if any, is kept in a .src.txt next to it.
+        const textFile = `translations/${translation.languageCode}.txt`;
+        const plainText = stripSpeechMarkup(text);
+        files[textFile] = encodeText(plainText);
+        let sourceFile: string | undefined;
+        if (plainText !== text) {
+            sourceFile = `translations/${translation.languageCode}.src.txt`;
+            files[sourceFile] = encodeText(text);
+        }
+        let audioFile: string | undefined;
+        if (audioBlob) {
+            audioFile = `audio/${translation.languageCode}.${extensionForMimeType(audioBlob.type)}`;
+            files[audioFile] = await blobBytes(audioBlob);
+        }
+        let rawAudioFile: string | undefined;
+        if (rawAudioBlob) {
+            rawAudioFile = `audio/${translation.languageCode}.raw.${extensionForMimeType(rawAudioBlob.type)}`;
+            files[rawAudioFile] = await blobBytes(rawAudioBlob);
+        }
+        manifest.translations.push({ ...translation, textFile, sourceFile, audioFile, rawAudioFile });
+    }
+
+    files[MANIFEST_FILE] = encodeText(JSON.stringify(manifest, null, 2));
+
+    const zipped = await new Promise<Uint8Array>((resolve, reject) => {
+        zip(files, (error, data) => error ? reject(error) : resolve(data));
+    });
+    return new Blob([zipped as BlobPart], { type: 'application/zip' });
+}
+
+// Reads a bundle produced by exportProjectBundle. The returned project has no id;
+// the caller decides whether it becomes a new project.
+export async function importProjectBundle(file: Blob): Promise<Omit<Project, 'id'>> {
+    const bytes = await blobBytes(file);
+    const entries = await new Promise<Record<string, Uint8Array>>((resolve, reject) => {
+        unzip(bytes, (error, data) => error ? reject(new Error('The file is not a valid zip archive.')) : resolve(data));
+    });
+
+    const manifestBytes = entries[MANIFEST_FILE];
+    if (!manifestBytes) throw new Error('The archive has no manifest.json; it is not a project export.');
+    const manifest = JSON.parse(decodeText(manifestBytes)) as BundleManifest;
+    if (manifest.format !== 'translator-voiceover-project') throw new Error('The archive is not a project export.');
+    if (manifest.version > BUNDLE_VERSION) throw new Error('The project was exported by a newer version of the app.');
+
+    const readText = (path: string) => {
+        const bytes = entries[path];
+        if (!bytes) throw new Error(`The archive is missing ${path}.`);
+        return decodeText(bytes);
+    };
+    const readBlob = (path: string, mimeType: string) => {
+        const bytes = entries[path];
+        if (!bytes) throw new Error(`The archive is missing ${path}.`);
+        return new Blob([bytes as BlobPart], { type: mimeType });
+    };
+
+    const translations: StoredTranslation[] = manifest.translations.map(({ textFile, sourceFile, audioFile, rawAudioFile, ...translation }) => ({
+        ...translation,
+        text: readText(sourceFile || textFile),
+        audioBlob: audioFile ? readBlob(audioFile, mimeTypeForExtension(audioFile.split('.').pop() || '')) : undefined,
+        rawAudioBlob: rawAudioFile ? readBlob(rawAudioFile, mimeTypeForExtension(rawAudioFile.split('.').pop() || '')) : undefined,
+    }));
+
+    const now = Date.now();
+    return {
+        name: manifest.name,
+        createdAt: Date.parse(manifest.createdAt) || now,
+        updatedAt: now,
+        sourceMedia: manifest.sourceMedia ? readBlob(manifest.sourceMedia.file, manifest.sourceMedia.mimeType) : undefined,
+        sourceDuration: manifest.sourceMedia?.duration,
+        musicBed: manifest.musicBed
+            ? { blob: readBlob(manifest.musicBed.file, manifest.musicBed.mimeType), name: manifest.musicBed.name, settings: manifest.musicBed.settings }
+            : undefined,
+        transcript: readText(manifest.transcript.file),
+        segments: manifest.transcript.segments || [],
+        detectedLanguage: manifest.sourceLanguage,
+        translations,
+    };
+}
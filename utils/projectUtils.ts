@@ -0,0 +1,33 @@
+import type { StoredTranslation, Translation, TranscriptSegment } from '../types';
+
+// Captures the current translations for storage, turning audio object URLs back into Blobs.
+export async function toStoredTranslations(translations: Translation[]): Promise<StoredTranslation[]> {
+    return Promise.all(translations.map(async ({ audioUrl, rawAudioUrl, isGeneratingAudio, audioProgress, audioError, isCheckingQa, ...rest }) => {
+        const audioBlob = audioUrl ? await (await fetch(audioUrl)).blob() : undefined;
+        const rawAudioBlob = rawAudioUrl === audioUrl ? audioBlob
+            : rawAudioUrl ? await (await fetch(rawAudioUrl)).blob() : undefined;
+        return { ...rest, audioBlob, rawAudioBlob };
+    }));
+}
+
+// Rebuilds live translations from storage, with fresh object URLs for the audio.
+export function fromStoredTranslations(stored: StoredTranslation[]): Translation[] {
+    return stored.map(({ audioBlob, rawAudioBlob, ...rest }) => ({
+        ...rest,
+        audioUrl: audioBlob ? URL.createObjectURL(audioBlob) : undefined,
+        rawAudioUrl: rawAudioBlob ? URL.createObjectURL(rawAudioBlob) : undefined,
+    }));
+}
+
+export function revokeAudioUrls(translations: Array<Pick<Translation, 'audioUrl' | 'rawAudioUrl'>>) {
+    translations.forEach(t => {
+        if (t.audioUrl) URL.revokeObjectURL(t.audioUrl);
+        if (t.rawAudioUrl && t.rawAudioUrl !== t.audioUrl) URL.revokeObjectURL(t.rawAudioUrl);
+    });
+}
+
+export function defaultProjectName(transcript: string, segments: TranscriptSegment[]): string {
+    const source = transcript || segments.map(s => s.text).join(' ');
+    const words = source.trim().split(/\s+/).slice(0, 8).join(' ');
+    return words ? (words.length > 48 ? `${words.slice(0, 48)}…` : words) : `Project ${new Date().toLocaleString()}`;
+}
@@ -0,0 +1,37 @@
+import type { PronunciationEntry } from '../types';
+import { escapeRegExp } from './glossary';
+
+const STORAGE_KEY = 'pronunciationLexicon';
+
+export function loadLexicon(): PronunciationEntry[] {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+        console.warn('Could not read pronunciation lexicon:', error);
+        return [];
+    }
+}
+
+export function saveLexicon(lexicon: PronunciationEntry[]) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(lexicon));
+    } catch (error) {
+        console.warn('Could not save pronunciation lexicon:', error);
+    }
+}
+
+export function lexiconFor(lexicon: PronunciationEntry[], languageCode: string): PronunciationEntry[] {
+    return lexicon.filter(entry => entry.languageCode === languageCode);
+}
+
+// Replaces whole-word, case-insensitive occurrences of each term with its spoken form.
+// Longer terms win, so "AWS Lambda" is matched before "AWS".
+export function applyLexicon(text: string, entries: PronunciationEntry[]): string {
+    const usable = entries.filter(entry => entry.term.trim()).sort((a, b) => b.term.trim().length - a.term.trim().length);
+    if (usable.length === 0) return text;
+    const spoken = new Map(usable.map(entry => [entry.term.trim().toLowerCase(), entry.spoken]));
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${usable.map(entry => escapeRegExp(entry.term.trim())).join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+    return text.replace(pattern, match => spoken.get(match.toLowerCase()) ?? match);
+}
@@ -0,0 +1,23 @@
+import { DEFAULT_RECORDING_TIME_LIMIT, RECORDING_TIME_LIMITS } from '../constants';
+
+const STORAGE_KEY = 'recordingTimeLimit';
+
+export function getRecordingTimeLimit(): number {
+    try {
+        const stored = Number(localStorage.getItem(STORAGE_KEY));
+        if (RECORDING_TIME_LIMITS.includes(stored)) {
+            return stored;
+        }
+    } catch (error) {
+        console.warn('Could not read recording time limit:', error);
+    }
+    return DEFAULT_RECORDING_TIME_LIMIT;
+}
+
+export function saveRecordingTimeLimit(seconds: number) {
+    try {
+        localStorage.setItem(STORAGE_KEY, String(seconds));
+    } catch (error) {
+        console.warn('Could not save recording time limit:', error);
+    }
+}
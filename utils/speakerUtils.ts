@@ -0,0 +1,76 @@
+import type { DialogueTurn, TranscriptSegment } from '../types';
+import { VOICES } from '../constants';
+
+// Unlabelled segments are voiced as this speaker once any segment has a label.
+export const DEFAULT_SPEAKER = 'Speaker 1';
+
+export function getSpeakers(segments: TranscriptSegment[] | undefined): string[] {
+    const speakers: string[] = [];
+    if (!segments?.some(segment => segment.speaker)) return speakers;
+    segments.forEach(segment => {
+        const speaker = segment.speaker || DEFAULT_SPEAKER;
+        if (!speakers.includes(speaker)) {
+            speakers.push(speaker);
+        }
+    });
+    return speakers;
+}
+
+// Merges consecutive segments by the same speaker into a single turn.
+export function toDialogueTurns(segments: TranscriptSegment[]): DialogueTurn[] {
+    const turns: DialogueTurn[] = [];
+    segments.forEach(segment => {
+        const text = segment.text.trim();
+        if (!text) return;
+        const speaker = segment.speaker || DEFAULT_SPEAKER;
+        const last = turns[turns.length - 1];
+        if (last && last.speaker === speaker) {
+            last.text = `${last.text} ${text}`;
+        } else {
+            turns.push({ speaker, text });
+        }
+    });
+    return turns;
+}
+
+// Gives every speaker a voice. Voices already picked are kept as they are, even when
+// shared; the first speaker otherwise gets the translation's main voice and the rest
+// alternate gender so the voices are easy to tell apart.
+export function assignSpeakerVoices(speakers: string[], primaryVoice: string, existing: Record<string, string> = {}): Record<string, string> {
+    const assigned: Record<string, string> = {};
+    const used = new Set<string>();
+    speakers.forEach(speaker => {
+        if (existing[speaker]) {
+            assigned[speaker] = existing[speaker];
+            used.add(existing[speaker]);
+        }
+    });
+    if (speakers.length > 0 && !assigned[speakers[0]] && primaryVoice && !used.has(primaryVoice)) {
+        assigned[speakers[0]] = primaryVoice;
+        used.add(primaryVoice);
+    }
+
+    let lastGender = VOICES.find(v => v.name === primaryVoice)?.gender;
+    speakers.forEach(speaker => {
+        if (assigned[speaker]) return;
+        const preferredGender = lastGender === 'male' ? 'female' : 'male';
+        const next = VOICES.find(v => !used.has(v.name) && v.gender === preferredGender)
+            || VOICES.find(v => !used.has(v.name))
+            || VOICES[0];
+        assigned[speaker] = next.name;
+        used.add(next.name);
+        lastGender = next.gender;
+    });
+    return assigned;
+}
+
+// Groups speakers that were given the same voice, so the UI can point out that they will sound alike.
+export function findSharedVoices(speakerVoices: Record<string, string>): Array<{ voiceName: string; speakers: string[] }> {
+    const byVoice = new Map<string, string[]>();
+    Object.entries(speakerVoices).forEach(([speaker, voiceName]) => {
+        byVoice.set(voiceName, [...(byVoice.get(voiceName) || []), speaker]);
+    });
+    return [...byVoice.entries()]
+        .filter(([, speakers]) => speakers.length > 1)
+        .map(([voiceName, speakers]) => ({ voiceName, speakers }));
+}
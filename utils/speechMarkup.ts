@@ -0,0 +1,85 @@
+import type { PronunciationEntry, TranscriptSegment } from '../types';
+import { applyLexicon } from './pronunciation';
+
+// Inline speech markup in translation text:
+//   [pause], [pause 1.5s], [pause 400ms]   silence, DEFAULT_PAUSE_MS when no length is given
+//   [emph: words]                          spoken with emphasis
+//   [spell: ABC]                           read out character by character
+// Everything else, asterisks included, is ordinary text.
+const PAUSE_PATTERN = /\[pause(?:\s+(\d+(?:\.\d+)?)\s*(ms|s))?\]/gi;
+const SPELL_PATTERN = /\[spell:\s*([^\]]*)\]/gi;
+const EMPHASIS_PATTERN = /\[emph:\s*([^\]]*?)\s*\]/gi;
+// In rendered TTS text emphasis is `*words*`, with no space inside the asterisks;
+// literal asterisks are spaced out so they never look like emphasis.
+const RENDERED_EMPHASIS_PATTERN = /\*\S(?:[^*\n]*\S)?\*/;
+const DEFAULT_PAUSE_MS = 500;
+const MAX_PAUSE_MS = 10000;
+
+export interface SpeechPart {
+    text: string; // TTS input; emphasis is marked as `*words*` for the provider
+    pauseAfterMs?: number; // explicit silence after this part
+}
+
+const tidy = (text: string) => text.replace(/[ \t]{2,}/g, ' ').replace(/ +([,.;:!?])/g, '$1').trim();
+
+// The plain text a reader should see: markup removed, spelled-out words kept as written.
+export function stripSpeechMarkup(text: string): string {
+    return tidy(text.replace(PAUSE_PATTERN, ' ').replace(SPELL_PATTERN, '$1').replace(EMPHASIS_PATTERN, '$1'));
+}
+
+export function stripSegmentMarkup(segments: TranscriptSegment[]): TranscriptSegment[] {
+    return segments.map(segment => ({ ...segment, text: stripSpeechMarkup(segment.text) }));
+}
+
+// Whether rendered TTS text (see renderSpeechText) asks for emphasis.
+export function hasEmphasisMarkup(text: string): boolean {
+    return RENDERED_EMPHASIS_PATTERN.test(text);
+}
+
+const pauseMs = (amount?: string, unit?: string) => {
+    if (!amount) return DEFAULT_PAUSE_MS;
+    const ms = unit?.toLowerCase() === 's' ? Number(amount) * 1000 : Number(amount);
+    return Math.min(MAX_PAUSE_MS, Math.round(ms));
+};
+
+const spellOut = (value: string) => Array.from(value.replace(/\s+/g, '')).join('-');
+
+const renderPlain = (text: string, lexicon: PronunciationEntry[]) => applyLexicon(
+    text.replace(/\*/g, ' * ').replace(EMPHASIS_PATTERN, (_, words: string) => words ? `*${words}*` : ''),
+    lexicon,
+).replace(PAUSE_PATTERN, ' … ');
+
+// Renders one stretch of text for TTS: lexicon applied, emphasis marked, spell-outs
+// expanded and any pause turned into an ellipsis, for callers that cannot insert real
+// silence. Spell-outs are left out of the lexicon step, so it cannot rewrite them.
+export function renderSpeechText(text: string, lexicon: PronunciationEntry[] = []): string {
+    let rendered = '';
+    let last = 0;
+    for (const match of text.matchAll(SPELL_PATTERN)) {
+        rendered += renderPlain(text.slice(last, match.index), lexicon) + spellOut(match[1]);
+        last = (match.index ?? 0) + match[0].length;
+    }
+    return tidy(rendered + renderPlain(text.slice(last), lexicon));
+}
+
+// Splits marked-up text at its pauses into parts to synthesize separately, with the
+// requested silence after each. Pauses with no speech before them are dropped or merged.
+export function renderSpeech(text: string, lexicon: PronunciationEntry[] = []): SpeechPart[] {
+    const parts: SpeechPart[] = [];
+    let last = 0;
+    const addPart = (segment: string, pause?: number) => {
+        const rendered = renderSpeechText(segment, lexicon);
+        if (rendered) {
+            parts.push({ text: rendered, pauseAfterMs: pause });
+        } else if (pause !== undefined && parts.length > 0) {
+            const previous = parts[parts.length - 1];
+            previous.pauseAfterMs = (previous.pauseAfterMs ?? 0) + pause;
+        }
+    };
+    for (const match of text.matchAll(PAUSE_PATTERN)) {
+        addPart(text.slice(last, match.index), pauseMs(match[1], match[2]));
+        last = (match.index ?? 0) + match[0].length;
+    }
+    addPart(text.slice(last));
+    return parts;
+}
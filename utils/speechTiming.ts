@@ -0,0 +1,50 @@
+import { CHARACTERS_PER_MINUTE, DEFAULT_WORDS_PER_MINUTE, DURATION_FIT_TOLERANCE, MAX_TIME_STRETCH, MIN_TIME_STRETCH, WORDS_PER_MINUTE } from '../constants';
+import { createWavFile, PCM_SAMPLE_RATE, timeStretchPcm, uint8ArrayToBase64 } from './audioUtils';
+import { readWavPcm } from './audioEncoding';
+
+// Rough narration time for a text, from typical speaking rates per language.
+export function estimateSpeechSeconds(text: string, languageCode: string): number {
+    const charactersPerMinute = CHARACTERS_PER_MINUTE[languageCode];
+    if (charactersPerMinute) {
+        const characters = text.replace(/[\s\p{P}]/gu, '').length;
+        return (characters / charactersPerMinute) * 60;
+    }
+    const words = text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+    return (words / (WORDS_PER_MINUTE[languageCode] || DEFAULT_WORDS_PER_MINUTE)) * 60;
+}
+
+// Speeds a voiceover up (rate above 1) or slows it down without changing its pitch.
+// Returns the original URL at rate 1.
+export async function applySpeakingRate(wavUrl: string, rate: number): Promise<string> {
+    if (rate === 1) return wavUrl;
+    const stretched = timeStretchPcm(await readWavPcm(wavUrl), 1 / rate);
+    return createWavFile(uint8ArrayToBase64(new Uint8Array(stretched.buffer)));
+}
+
+export interface FittedVoiceover {
+    audioUrl: string;
+    duration: number; // seconds, after stretching
+    stretch: number; // applied factor, 1 when the audio was already close enough
+}
+
+// Time-stretches a generated voiceover towards `targetSeconds`, within the range speech
+// survives. Returns the original URL when no stretching was needed.
+export async function fitVoiceoverToDuration(wavUrl: string, targetSeconds: number): Promise<FittedVoiceover> {
+    const pcm = await readWavPcm(wavUrl);
+    const duration = pcm.length / PCM_SAMPLE_RATE;
+    if (duration === 0 || Math.abs(duration / targetSeconds - 1) <= DURATION_FIT_TOLERANCE) {
+        return { audioUrl: wavUrl, duration, stretch: 1 };
+    }
+    const stretch = Math.min(MAX_TIME_STRETCH, Math.max(MIN_TIME_STRETCH, targetSeconds / duration));
+    const stretched = timeStretchPcm(pcm, stretch);
+    const audioUrl = createWavFile(uint8ArrayToBase64(new Uint8Array(stretched.buffer)));
+    return { audioUrl, duration: stretched.length / PCM_SAMPLE_RATE, stretch };
+}
+
+// "+1.2 s (+4%)" style label for how far a voiceover is from its target length.
+export function formatDurationDelta(actual: number, target: number): string {
+    const delta = actual - target;
+    const sign = delta >= 0 ? '+' : '−';
+    const percent = target > 0 ? Math.round((Math.abs(delta) / target) * 100) : 0;
+    return `${sign}${Math.abs(delta).toFixed(1)} s (${sign}${percent}%)`;
+}
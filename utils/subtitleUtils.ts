@@ -0,0 +1,46 @@
+import type { TranscriptSegment } from '../types';
+import { downloadBlob } from './fileUtils';
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+function formatTimestamp(seconds: number, millisecondSeparator: ',' | '.'): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${millisecondSeparator}${pad(ms, 3)}`;
+}
+
+export function formatSrt(segments: TranscriptSegment[]): string {
+    return segments
+        .map((segment, index) => [
+            String(index + 1),
+            `${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}`,
+            segment.text.trim(),
+        ].join('\n'))
+        .join('\n\n') + '\n';
+}
+
+export function formatVtt(segments: TranscriptSegment[]): string {
+    // Speaker labels become WebVTT voice spans, which players can style or show.
+    const cues = segments.map(segment => [
+        `${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(segment.end, '.')}`,
+        segment.speaker ? `<v ${segment.speaker}>${segment.text.trim()}` : segment.text.trim(),
+    ].join('\n'));
+    return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+export function joinSegments(segments: TranscriptSegment[]): string {
+    return segments.map(s => s.text.trim()).filter(Boolean).join(' ');
+}
+
+// Short "m:ss" form for on-screen timestamps.
+export function formatClock(seconds: number): string {
+    const total = Math.max(0, Math.floor(seconds));
+    return `${Math.floor(total / 60)}:${pad(total % 60)}`;
+}
+
+export function downloadTextFile(content: string, filename: string, mimeType: string) {
+    downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), filename);
+}
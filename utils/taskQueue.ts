@@ -0,0 +1,21 @@
+// Runs `worker` over every item with at most `limit` calls in flight at once.
+// Results keep the order of `items`; a rejected worker does not stop the others.
+export async function runWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T, index: number) => Promise<R>): Promise<PromiseSettledResult<R>[]> {
+    const results: PromiseSettledResult<R>[] = new Array(items.length);
+    let next = 0;
+
+    const runNext = async (): Promise<void> => {
+        while (next < items.length) {
+            const index = next++;
+            try {
+                results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+            } catch (reason) {
+                results[index] = { status: 'rejected', reason };
+            }
+        }
+    };
+
+    const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, runNext);
+    await Promise.all(workers);
+    return results;
+}
@@ -0,0 +1,109 @@
+function splitSentences(paragraph: string): string[] {
+    return splitSentenceUnits(paragraph).units.map(unit => unit.text.trim()).filter(Boolean);
+}
+
+// Breaks a single over-long sentence at clause punctuation, then at whitespace,
+// and as a last resort at a fixed width (e.g. unpunctuated CJK text).
+function splitLongSentence(sentence: string, maxChars: number): string[] {
+    const pieces: string[] = [];
+    let rest = sentence;
+    while (rest.length > maxChars) {
+        const window = rest.slice(0, maxChars);
+        const cut = Math.max(window.lastIndexOf(', '), window.lastIndexOf('; '), window.lastIndexOf('，'));
+        const at = cut > maxChars / 2 ? cut + 1 : (window.lastIndexOf(' ') > maxChars / 2 ? window.lastIndexOf(' ') : maxChars);
+        pieces.push(rest.slice(0, at).trim());
+        rest = rest.slice(at).trim();
+    }
+    if (rest) pieces.push(rest);
+    return pieces;
+}
+
+// Splits text into chunks of at most `maxChars`, only ever breaking at paragraph
+// or sentence boundaries unless a single sentence is longer than the limit.
+export function splitIntoChunks(text: string, maxChars: number): string[] {
+    const chunks: string[] = [];
+    let current = '';
+
+    const flush = () => {
+        if (current.trim()) chunks.push(current.trim());
+        current = '';
+    };
+
+    text.split(/\n\s*\n/).forEach(paragraph => {
+        splitSentences(paragraph).forEach(sentence => {
+            splitLongSentence(sentence, maxChars).forEach(piece => {
+                if (current && current.length + piece.length + 1 > maxChars) flush();
+                current = current ? `${current} ${piece}` : piece;
+            });
+        });
+        // Paragraph breaks always start a new chunk.
+        flush();
+    });
+
+    return chunks;
+}
+
+// Like splitIntoChunks, but every sentence is a piece of its own.
+export function splitIntoSentences(text: string, maxChars: number): string[] {
+    return text.split(/\n\s*\n/).flatMap(paragraph =>
+        splitSentences(paragraph).flatMap(sentence => splitLongSentence(sentence, maxChars)));
+}
+
+export interface SentenceUnit {
+    text: string;
+    separator: string; // whitespace that followed the sentence in the source
+}
+
+// A sentence ends at a terminator (plus closing quotes) followed by the end of the text,
+// a line break, or whitespace and a letter that is not lowercase. CJK terminators end a
+// sentence on their own. Decimals and URLs never match, since no whitespace follows their dots.
+const SENTENCE_END_PATTERN = /([。！？]+["'”’)\]」』]*|[.!?]+["'”’)\]]*)(\s*)/g;
+const NEXT_SENTENCE_START = /^["'“‘(\[¿¡]*[\p{L}\p{N}]/u;
+// Dots after these are not sentence ends, e.g. "Dr. Smith" or "e.g. Paris".
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'vs', 'etc', 'e.g', 'i.e', 'cf', 'approx', 'no', 'fig', 'inc', 'ltd', 'co']);
+
+function isSentenceEnd(line: string, end: RegExpMatchArray): boolean {
+    const [whole, terminator, space] = end;
+    const after = line.slice(end.index! + whole.length);
+    if (/^[。！？]/.test(terminator) || after === '') return true;
+    if (!space || !NEXT_SENTENCE_START.test(after)) return false;
+    const nextLetter = after.match(/[\p{L}\p{N}]/u)![0];
+    if (nextLetter.toLowerCase() === nextLetter && nextLetter.toUpperCase() !== nextLetter) return false;
+    if (terminator === '.') {
+        const word = line.slice(0, end.index).match(/(\S+)$/)?.[1].replace(/^["'“‘(]+/, '').toLowerCase() || '';
+        // Initials ("J. Smith") and listed abbreviations.
+        if (/^\p{L}$/u.test(word) || ABBREVIATIONS.has(word)) return false;
+    }
+    return true;
+}
+
+function splitLine(line: string): SentenceUnit[] {
+    const units: SentenceUnit[] = [];
+    let start = 0;
+    for (const end of line.matchAll(SENTENCE_END_PATTERN)) {
+        if (end.index! < start || !isSentenceEnd(line, end)) continue;
+        units.push({ text: line.slice(start, end.index! + end[1].length), separator: end[2] });
+        start = end.index! + end[0].length;
+    }
+    if (start < line.length) units.push({ text: line.slice(start), separator: '' });
+    return units;
+}
+
+// Splits text into sentences while keeping the exact whitespace between them,
+// so `joinSentenceUnits` can rebuild the original layout (paragraphs included).
+// Line breaks always end a sentence.
+export function splitSentenceUnits(text: string): { leading: string; units: SentenceUnit[] } {
+    const leading = text.match(/^\s*/)?.[0] || '';
+    const units: SentenceUnit[] = [];
+    for (const line of text.slice(leading.length).matchAll(/([^\n]*?)(\s*(?:\n\s*|$))/g)) {
+        if (!line[0]) break;
+        const lineUnits = splitLine(line[1]);
+        units.push(...lineUnits);
+        if (units.length > 0) units[units.length - 1].separator += line[2];
+    }
+    return { leading, units };
+}
+
+export function joinSentenceUnits(leading: string, texts: string[], units: SentenceUnit[]): string {
+    return leading + texts.map((text, i) => text + (units[i]?.separator ?? ' ')).join('');
+}
@@ -0,0 +1,43 @@
+export interface DiffPart {
+    type: 'equal' | 'added' | 'removed';
+    text: string;
+}
+
+// Word-level diff (longest common subsequence). Whitespace is kept attached to
+// the tokens so the parts can be rendered back to back.
+export function diffWords(before: string, after: string): DiffPart[] {
+    const a = before.match(/\s*\S+\s*/g) || [];
+    const b = after.match(/\s*\S+\s*/g) || [];
+    const key = (token: string) => token.trim();
+
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = key(a[i]) === key(b[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const parts: DiffPart[] = [];
+    const push = (type: DiffPart['type'], text: string) => {
+        const last = parts[parts.length - 1];
+        if (last && last.type === type) last.text += text;
+        else parts.push({ type, text });
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (key(a[i]) === key(b[j])) {
+            push('equal', b[j]);
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    while (i < a.length) push('removed', a[i++]);
+    while (j < b.length) push('added', b[j++]);
+    return parts;
+}
@@ -0,0 +1,33 @@
+// Canonical form used to compare segments: case, spacing and typographic quotes
+// should not stop a translation memory match.
+export function normalizeSegment(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/[“”„]/g, '"')
+        .replace(/[‘’]/g, "'")
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+    if (a === b) return 0;
+    if (!a.length) return b.length;
+    if (!b.length) return a.length;
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// 1 for identical strings, 0 for nothing in common.
+export function similarity(a: string, b: string): number {
+    const longest = Math.max(a.length, b.length);
+    if (longest === 0) return 1;
+    return 1 - levenshtein(a, b) / longest;
+}
@@ -0,0 +1,68 @@
+import type { TranscriptSegment } from '../types';
+import { joinSegments } from './subtitleUtils';
+import { normalizeSegment, similarity } from './textSimilarity';
+
+export interface ChunkTranscript {
+    offset: number; // seconds from the start of the media to the start of the chunk's audio
+    ownStart: number; // global seconds this chunk is authoritative for, see AudioChunk
+    ownEnd: number;
+    transcript: string;
+    segments: TranscriptSegment[]; // timestamps relative to the chunk
+}
+
+// Longest run of words the end of one transcript may repeat at the start of the next.
+const MAX_OVERLAP_WORDS = 60;
+const MIN_OVERLAP_WORDS = 3;
+
+const wordKey = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// Joins two transcripts, dropping the words the second repeats from the end of the first.
+function mergeTexts(first: string, second: string): string {
+    const a = first.trim().split(/\s+/).filter(Boolean);
+    const b = second.trim().split(/\s+/).filter(Boolean);
+    if (a.length === 0) return b.join(' ');
+    for (let size = Math.min(MAX_OVERLAP_WORDS, a.length, b.length); size >= MIN_OVERLAP_WORDS; size--) {
+        const tail = a.slice(a.length - size).map(wordKey).join(' ');
+        const head = b.slice(0, size).map(wordKey).join(' ');
+        if (tail === head) return [...a, ...b.slice(size)].join(' ');
+    }
+    return [...a, ...b].join(' ');
+}
+
+// Both sides of an overlap may transcribe the sentence spanning the cut.
+function isSameUtterance(a: string, b: string): boolean {
+    const x = normalizeSegment(a);
+    const y = normalizeSegment(b);
+    if (!x || !y) return false;
+    const shorter = x.length < y.length ? x : y;
+    const longer = x.length < y.length ? y : x;
+    return similarity(x, y) >= 0.8 || (shorter.length >= 12 && longer.includes(shorter));
+}
+
+// Stitches chunk transcripts into one, with timestamps on the media's timeline. Each
+// chunk contributes only the segments starting in the span it owns, so overlaps are
+// not transcribed twice.
+export function mergeChunkTranscripts(parts: ChunkTranscript[]): { transcript: string; segments: TranscriptSegment[] } {
+    if (parts.length === 1) {
+        const [only] = parts;
+        return { transcript: only.transcript, segments: only.segments.map(s => ({ ...s, start: s.start + only.offset, end: s.end + only.offset })) };
+    }
+
+    const segments: TranscriptSegment[] = [];
+    let transcript = '';
+
+    parts.forEach((part, index) => {
+        const isFirst = index === 0;
+        const isLast = index === parts.length - 1;
+        const owned = part.segments
+            .map(segment => ({ ...segment, start: segment.start + part.offset, end: segment.end + part.offset }))
+            .filter(segment => (isFirst || segment.start >= part.ownStart) && (isLast || segment.start < part.ownEnd));
+        while (owned.length > 0 && segments.length > 0 && isSameUtterance(segments[segments.length - 1].text, owned[0].text)) {
+            owned.shift();
+        }
+        segments.push(...owned);
+        transcript = mergeTexts(transcript, part.transcript);
+    });
+
+    return { transcript: segments.length > 0 ? joinSegments(segments) : transcript, segments };
+}
@@ -0,0 +1,145 @@
+import type { QaIssue, QaReport, QaSeverity } from '../types';
+import { containsTerm } from './glossary';
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s"'<>()]+/gi;
+const EMAIL_PATTERN = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)+/gu;
+const NUMBER_PATTERN = /\p{Nd}+(?:[.,'\u00A0\u202F]\p{Nd}+| \p{Nd}{3}(?!\p{Nd}))*/gu;
+
+// Zero code points of the decimal digit blocks translations commonly switch to.
+const DIGIT_ZEROS = [0x660, 0x6f0, 0x966, 0x9e6, 0xa66, 0xae6, 0xbe6, 0xc66, 0xce6, 0xd66, 0xe50, 0xed0, 0xff10];
+
+// The model may legitimately make a text this much shorter or longer in the source language.
+const LENGTH_WARNING = { min: 0.6, max: 1.6 };
+const LENGTH_ERROR = { min: 0.4, max: 2.5 };
+
+const SEVERITY_ORDER: QaSeverity[] = ['ok', 'info', 'warning', 'error'];
+
+const trimPunctuation = (value: string) => value.replace(/[.,;:!?]+$/, '');
+
+function toAsciiDigits(value: string): string {
+    return value.replace(/\p{Nd}/gu, digit => {
+        const code = digit.codePointAt(0)!;
+        const zero = DIGIT_ZEROS.find(z => code >= z && code <= z + 9);
+        return zero === undefined ? digit : String(code - zero);
+    });
+}
+
+function extractUrls(text: string): string[] {
+    return (text.match(URL_PATTERN) || []).map(url => trimPunctuation(url).toLowerCase());
+}
+
+function extractEmails(text: string): string[] {
+    return (text.match(EMAIL_PATTERN) || []).map(email => trimPunctuation(email).toLowerCase());
+}
+
+// Numbers compared by their digits only, so "1,000" and "1.000" or "3.5" and "3,5" match.
+function extractNumbers(text: string): string[] {
+    const withoutLinks = text.replace(URL_PATTERN, ' ').replace(EMAIL_PATTERN, ' ');
+    return (withoutLinks.match(NUMBER_PATTERN) || []).map(n => toAsciiDigits(n).replace(/\D/g, ''));
+}
+
+// Capitalised words and runs of them ("New York", "NASA") that do not just start a sentence.
+// Sentence-initial words count only if they are capitalised somewhere else too.
+export function extractNamedEntities(text: string): string[] {
+    const isCapitalised = (word: string) => /^\p{Lu}/u.test(word);
+    const runs: Array<{ words: string[]; initial: boolean }> = [];
+    const midSentence = new Set<string>();
+
+    text.split(/(?<=[.!?])\s+|\n+/).forEach(sentence => {
+        const words = sentence.split(/\s+/).map(w => w.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '')).filter(Boolean);
+        let run: { words: string[]; initial: boolean } | null = null;
+        words.forEach((word, index) => {
+            if (!isCapitalised(word)) {
+                run = null;
+                return;
+            }
+            if (index > 0) midSentence.add(word);
+            if (run) {
+                run.words.push(word);
+            } else {
+                run = { words: [word], initial: index === 0 };
+                runs.push(run);
+            }
+        });
+    });
+
+    const entities = runs
+        .map(({ words, initial }) => (initial && !midSentence.has(words[0]) ? words.slice(1) : words).join(' '))
+        .filter(name => name.length > 1);
+    return Array.from(new Set(entities));
+}
+
+// Values present in the source but missing from the other text; repeats must be matched one to one.
+function missingValues(source: string[], other: string[]): string[] {
+    const remaining = [...other];
+    return source.filter(value => {
+        const index = remaining.indexOf(value);
+        if (index === -1) return true;
+        remaining.splice(index, 1);
+        return false;
+    });
+}
+
+function lengthIssue(ratio: number, label: string): QaIssue | undefined {
+    if (ratio < LENGTH_ERROR.min || ratio > LENGTH_ERROR.max) {
+        return { kind: 'length', severity: 'error', message: `The ${label} is ${Math.round(ratio * 100)}% of the source length; content was probably dropped or added.` };
+    }
+    if (ratio < LENGTH_WARNING.min || ratio > LENGTH_WARNING.max) {
+        return { kind: 'length', severity: 'warning', message: `The ${label} is ${Math.round(ratio * 100)}% of the source length.` };
+    }
+    return undefined;
+}
+
+// Compares a translation (and its back-translation, when available) with the source text.
+export function buildQaReport(source: string, translated: string, backTranslation?: string, backTranslationError?: string): QaReport {
+    const issues: QaIssue[] = [];
+
+    const sourceNumbers = extractNumbers(source);
+    const translatedNumbers = extractNumbers(translated);
+    const backNumbers = backTranslation ? extractNumbers(backTranslation) : [];
+    missingValues(sourceNumbers, translatedNumbers).forEach(n => {
+        issues.push(backNumbers.includes(n)
+            ? { kind: 'number', severity: 'info', message: `${n} is written out differently in the translation but survives the back-translation.` }
+            : { kind: 'number', severity: 'error', message: `${n} was dropped or changed in the translation.` });
+    });
+    missingValues(translatedNumbers, sourceNumbers).forEach(n => {
+        issues.push({ kind: 'number', severity: 'warning', message: `${n} appears in the translation but not in the source.` });
+    });
+
+    const translatedUrls = extractUrls(translated);
+    missingValues(extractUrls(source), translatedUrls).forEach(url => {
+        issues.push({ kind: 'url', severity: 'error', message: `The link ${url} was dropped or changed.` });
+    });
+    const translatedEmails = extractEmails(translated);
+    missingValues(extractEmails(source), translatedEmails).forEach(email => {
+        issues.push({ kind: 'email', severity: 'error', message: `The email address ${email} was dropped or changed.` });
+    });
+
+    extractNamedEntities(source)
+        .filter(name => !containsTerm(translated, name) && !(backTranslation && containsTerm(backTranslation, name)))
+        .forEach(name => {
+            issues.push({
+                kind: 'entity',
+                severity: 'warning',
+                message: backTranslation
+                    ? `"${name}" is missing from both the translation and its back-translation.`
+                    : `"${name}" does not appear in the translation.`,
+            });
+        });
+
+    const sourceLength = Math.max(source.trim().length, 1);
+    const lengthRatio = translated.trim().length / sourceLength;
+    const backLengthRatio = backTranslation ? backTranslation.trim().length / sourceLength : undefined;
+    // Scripts differ a lot in characters per word, so the back-translation gives the fairer comparison.
+    const lengthProblem = backLengthRatio !== undefined
+        ? lengthIssue(backLengthRatio, 'back-translation')
+        : lengthIssue(lengthRatio, 'translation');
+    if (lengthProblem) issues.push(lengthProblem);
+
+    const severity = issues.reduce<QaSeverity>(
+        (worst, issue) => SEVERITY_ORDER.indexOf(issue.severity) > SEVERITY_ORDER.indexOf(worst) ? issue.severity : worst,
+        'ok',
+    );
+
+    return { backTranslation, backTranslationError, lengthRatio, backLengthRatio, issues, severity };
+}
@@ -0,0 +1,30 @@
+import type { VoiceSettings } from '../types';
+import { DEFAULT_VOICE, VOICES } from '../constants';
+
+const STORAGE_KEY = 'voiceDefaults';
+
+function readAll(): Record<string, VoiceSettings> {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return raw ? JSON.parse(raw) : {};
+    } catch (error) {
+        console.warn('Could not read voice defaults:', error);
+        return {};
+    }
+}
+
+export function getDefaultVoice(languageCode: string): VoiceSettings {
+    const stored = readAll()[languageCode];
+    if (stored && VOICES.some(v => v.name === stored.voiceName)) {
+        return stored;
+    }
+    return { voiceName: DEFAULT_VOICE };
+}
+
+export function saveDefaultVoice(languageCode: string, voice: VoiceSettings) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readAll(), [languageCode]: voice }));
+    } catch (error) {
+        console.warn('Could not save voice defaults:', error);
+    }
+}
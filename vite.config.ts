@@ -8,6 +8,7 @@ export default defineConfig(({ mode }) => {
     plugins: [react()],
     define: {
       'process.env.API_KEY': JSON.stringify(env.API_KEY),
+      'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
     },
   };
 });
\ No newline at end of file